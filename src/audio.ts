@@ -0,0 +1,496 @@
+import { readFile, stat } from "node:fs/promises";
+import { z } from "zod";
+import { type ActuatorLevels } from "./driver.js";
+import { type TimelineSample } from "./timeline.js";
+import { InvalidInputError } from "./errors.js";
+
+// Longest stretch of audio analyzed; the rest of a longer file is ignored
+export const MAX_AUDIO_DURATION = 600000;
+
+// Larger files would need more memory than is reasonable to decode at once
+const MAX_AUDIO_BYTES = 256 * 1024 * 1024;
+
+// Crossover frequencies (Hz) between bass, mids and treble
+const BASS_CUTOFF = 250;
+const TREBLE_CUTOFF = 2000;
+
+// Loudness that maps to full level at sensitivity 1, as a percentile of the
+// whole track, so a few loud peaks don't flatten everything else
+const REFERENCE_PERCENTILE = 0.95;
+
+const PREVIEW_WIDTH = 32;
+const SPARKS = "▁▂▃▄▅▆▇█";
+
+export const pcmEncodingSchema = z.enum([
+  "u8",
+  "s16le",
+  "s24le",
+  "s32le",
+  "f32le",
+  "f64le",
+]);
+
+export type PcmEncoding = z.infer<typeof pcmEncodingSchema>;
+
+export const rawAudioSchema = z
+  .object({
+    sampleRate: z
+      .number()
+      .int()
+      .min(8000)
+      .max(192000)
+      .describe("Samples per second per channel"),
+    channels: z
+      .number()
+      .int()
+      .min(1)
+      .max(8)
+      .default(1)
+      .describe("Interleaved channels"),
+    encoding: pcmEncodingSchema
+      .default("s16le")
+      .describe(
+        "Sample encoding: u8, s16le, s24le, s32le (signed little-endian integers), f32le or f64le (little-endian floats)",
+      ),
+  })
+  .describe(
+    "Layout of a raw PCM file, which has no header to read it from. Not needed for WAV files",
+  );
+
+export type RawAudioFormat = z.infer<typeof rawAudioSchema>;
+
+export const audioBandSchema = z
+  .enum(["envelope", "bass", "mids", "treble", "off"])
+  .describe(
+    `What drives the channel: envelope (overall loudness), bass (below ${BASS_CUTOFF}Hz), mids (${BASS_CUTOFF}-${TREBLE_CUTOFF}Hz), treble (above ${TREBLE_CUTOFF}Hz) or off`,
+  );
+
+export type AudioBand = z.infer<typeof audioBandSchema>;
+
+export interface AudioData {
+  sampleRate: number;
+  channels: number;
+  encoding: PcmEncoding;
+  // Samples per channel
+  frames: number;
+  // One sample, -1.0 to 1.0
+  sample(frame: number, channel: number): number;
+}
+
+const BYTES_PER_SAMPLE: Record<PcmEncoding, number> = {
+  u8: 1,
+  s16le: 2,
+  s24le: 3,
+  s32le: 4,
+  f32le: 4,
+  f64le: 8,
+};
+
+function sampleReader(
+  buffer: Buffer,
+  encoding: PcmEncoding,
+): (offset: number) => number {
+  switch (encoding) {
+    case "u8":
+      return (offset) => (buffer.readUInt8(offset) - 128) / 128;
+    case "s16le":
+      return (offset) => buffer.readInt16LE(offset) / 0x8000;
+    case "s24le":
+      return (offset) => buffer.readIntLE(offset, 3) / 0x800000;
+    case "s32le":
+      return (offset) => buffer.readInt32LE(offset) / 0x80000000;
+    case "f32le":
+      return (offset) => buffer.readFloatLE(offset);
+    case "f64le":
+      return (offset) => buffer.readDoubleLE(offset);
+  }
+}
+
+/**
+ * Interleaved PCM samples from `length` bytes of `buffer` at `start`. A
+ * trailing partial frame is ignored.
+ */
+export function pcmAudio(
+  buffer: Buffer,
+  format: Required<RawAudioFormat>,
+  start = 0,
+  length = buffer.length - start,
+): AudioData {
+  const { sampleRate, channels, encoding } = format;
+  const bytes = BYTES_PER_SAMPLE[encoding];
+  const read = sampleReader(buffer, encoding);
+  return {
+    sampleRate,
+    channels,
+    encoding,
+    frames: Math.floor(length / (bytes * channels)),
+    sample: (frame, channel) =>
+      read(start + (frame * channels + channel) * bytes),
+  };
+}
+
+function wavEncoding(tag: number, bits: number): PcmEncoding | undefined {
+  // WAVE_FORMAT_PCM
+  if (tag === 1) {
+    return ({ 8: "u8", 16: "s16le", 24: "s24le", 32: "s32le" } as const)[
+      bits as 8 | 16 | 24 | 32
+    ];
+  }
+  // WAVE_FORMAT_IEEE_FLOAT
+  if (tag === 3) {
+    return ({ 32: "f32le", 64: "f64le" } as const)[bits as 32 | 64];
+  }
+  return undefined;
+}
+
+export function isWav(buffer: Buffer): boolean {
+  return (
+    buffer.length >= 12 &&
+    buffer.toString("ascii", 0, 4) === "RIFF" &&
+    buffer.toString("ascii", 8, 12) === "WAVE"
+  );
+}
+
+// Reads the "fmt " and "data" chunks of a RIFF/WAVE file
+export function parseWav(buffer: Buffer): AudioData {
+  if (!isWav(buffer)) throw new Error("Not a WAV file");
+
+  let format: Required<RawAudioFormat> | undefined;
+  let data: { start: number; length: number } | undefined;
+  for (let offset = 12; offset + 8 <= buffer.length;) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === "fmt " && size >= 16) {
+      let tag = buffer.readUInt16LE(body);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in its sub-format GUID
+      if (tag === 0xfffe && size >= 26) tag = buffer.readUInt16LE(body + 24);
+      const bits = buffer.readUInt16LE(body + 14);
+      const encoding = wavEncoding(tag, bits);
+      if (!encoding) {
+        throw new Error(
+          `Unsupported WAV encoding (format ${tag}, ${bits} bits); use PCM or float samples`,
+        );
+      }
+      format = {
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        encoding,
+      };
+    } else if (id === "data") {
+      // Streamed WAVs may leave the size unset or too large
+      data = { start: body, length: Math.min(size, buffer.length - body) };
+      break;
+    }
+    offset = body + size + (size % 2);
+  }
+
+  if (!format) throw new Error("WAV file has no fmt chunk");
+  if (!data) throw new Error("WAV file has no data chunk");
+  if (format.channels < 1 || format.sampleRate < 1) {
+    throw new Error("WAV file has an invalid fmt chunk");
+  }
+  return pcmAudio(buffer, format, data.start, data.length);
+}
+
+/**
+ * Loads a WAV file, or a raw PCM file when `raw` describes its layout.
+ */
+export async function loadAudio(
+  path: string,
+  raw?: RawAudioFormat,
+): Promise<AudioData> {
+  let buffer: Buffer;
+  try {
+    const { size } = await stat(path);
+    if (size > MAX_AUDIO_BYTES) {
+      throw new InvalidInputError(
+        `file is ${size} bytes, the limit is ${MAX_AUDIO_BYTES} bytes`,
+      );
+    }
+    buffer = await readFile(path);
+  } catch (e) {
+    throw new Error(`Cannot read audio file ${path}: ${e}`, { cause: e });
+  }
+
+  let audio: AudioData;
+  try {
+    if (isWav(buffer)) {
+      audio = parseWav(buffer);
+    } else if (raw) {
+      audio = pcmAudio(buffer, rawAudioSchema.parse(raw));
+    } else {
+      throw new Error("Not a WAV file; describe raw PCM with rawFormat");
+    }
+  } catch (e) {
+    throw new InvalidInputError(`Audio file ${path} is invalid: ${e}`);
+  }
+
+  if (audio.frames === 0) {
+    throw new InvalidInputError(`Audio file ${path} has no samples`);
+  }
+  return audio;
+}
+
+// Second-order low or high pass filter (RBJ audio EQ cookbook, Q = 1/√2)
+class Biquad {
+  private readonly b0: number;
+  private readonly b1: number;
+  private readonly b2: number;
+  private readonly a1: number;
+  private readonly a2: number;
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(
+    type: "lowpass" | "highpass",
+    cutoff: number,
+    sampleRate: number,
+  ) {
+    // Keep the cutoff below Nyquist for low sample rates
+    const w0 = (2 * Math.PI * Math.min(cutoff, sampleRate * 0.45)) / sampleRate;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / Math.SQRT2;
+    const a0 = 1 + alpha;
+    const b = type === "lowpass" ? (1 - cos) / 2 : (1 + cos) / 2;
+    this.b0 = b / a0;
+    this.b1 = ((type === "lowpass" ? 2 : -2) * b) / a0;
+    this.b2 = b / a0;
+    this.a1 = (-2 * cos) / a0;
+    this.a2 = (1 - alpha) / a0;
+  }
+
+  process(x: number): number {
+    const y =
+      this.b0 * x +
+      this.b1 * this.x1 +
+      this.b2 * this.x2 -
+      this.a1 * this.y1 -
+      this.a2 * this.y2;
+    this.x2 = this.x1;
+    this.x1 = x;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
+
+// RMS loudness of each band, one value per `resolution` ms of audio
+export interface AudioFeatures {
+  resolution: number;
+  // Milliseconds analyzed, at most MAX_AUDIO_DURATION
+  duration: number;
+  // Full length of the audio in milliseconds
+  audioDuration: number;
+  bands: Record<Exclude<AudioBand, "off">, number[]>;
+}
+
+/**
+ * Mixes the audio down to mono and measures the overall envelope and the
+ * bass, mids and treble energy of every `resolution` ms window.
+ */
+export function analyzeAudio(
+  audio: AudioData,
+  resolution: number,
+): AudioFeatures {
+  const { sampleRate, channels } = audio;
+  const audioDuration = (audio.frames / sampleRate) * 1000;
+  const frames = Math.min(
+    audio.frames,
+    Math.round((MAX_AUDIO_DURATION / 1000) * sampleRate),
+  );
+  const windowFrames = Math.max(
+    1,
+    Math.round((resolution / 1000) * sampleRate),
+  );
+
+  const bass = new Biquad("lowpass", BASS_CUTOFF, sampleRate);
+  const midsLow = new Biquad("highpass", BASS_CUTOFF, sampleRate);
+  const midsHigh = new Biquad("lowpass", TREBLE_CUTOFF, sampleRate);
+  const treble = new Biquad("highpass", TREBLE_CUTOFF, sampleRate);
+
+  const bands: AudioFeatures["bands"] = {
+    envelope: [],
+    bass: [],
+    mids: [],
+    treble: [],
+  };
+  const sums = { envelope: 0, bass: 0, mids: 0, treble: 0 };
+  let count = 0;
+  const flush = () => {
+    for (const band of ["envelope", "bass", "mids", "treble"] as const) {
+      bands[band].push(Math.sqrt(sums[band] / count));
+      sums[band] = 0;
+    }
+    count = 0;
+  };
+
+  for (let frame = 0; frame < frames; frame++) {
+    let x = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      x += audio.sample(frame, channel);
+    }
+    x /= channels;
+
+    const low = bass.process(x);
+    const mid = midsHigh.process(midsLow.process(x));
+    const high = treble.process(x);
+    sums.envelope += x * x;
+    sums.bass += low * low;
+    sums.mids += mid * mid;
+    sums.treble += high * high;
+    if (++count === windowFrames) flush();
+  }
+  if (count > 0) flush();
+
+  return {
+    resolution,
+    duration: (frames / sampleRate) * 1000,
+    audioDuration,
+    bands,
+  };
+}
+
+export interface AudioMapping {
+  // Multiplies the band's loudness before it's capped at full level
+  sensitivity: number;
+  // Time constant (ms) of the smoothing; 0 follows the audio directly
+  smoothing: number;
+  // Levels the channel moves between
+  floor: number;
+  ceiling: number;
+}
+
+function percentile(values: number[], fraction: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[
+    Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))
+  ];
+}
+
+/**
+ * Turns one band's loudness into channel levels: scaled so the loud parts of
+ * the track reach full level at sensitivity 1, smoothed, then mapped onto
+ * floor..ceiling.
+ */
+export function bandLevels(
+  values: number[],
+  resolution: number,
+  { sensitivity, smoothing, floor, ceiling }: AudioMapping,
+): number[] {
+  const reference =
+    values.length > 0 ? percentile(values, REFERENCE_PERCENTILE) : 0;
+  const alpha = smoothing > 0 ? 1 - Math.exp(-resolution / smoothing) : 1;
+
+  let smoothed = 0;
+  return values.map((value) => {
+    const loudness =
+      reference > 0 ? Math.min(1, (value / reference) * sensitivity) : 0;
+    smoothed += alpha * (loudness - smoothed);
+    return Math.round((floor + smoothed * (ceiling - floor)) * 1000) / 1000;
+  });
+}
+
+export interface AudioChannels {
+  vibration: AudioBand;
+  vacuum: AudioBand;
+}
+
+/**
+ * Levels to send every `resolution` ms, plus the end of the analyzed audio.
+ * Channels that are off are left out.
+ */
+export function audioSamples(
+  features: AudioFeatures,
+  channels: AudioChannels,
+  mapping: AudioMapping,
+): TimelineSample[] {
+  const levels: Partial<Record<keyof AudioChannels, number[]>> = {};
+  for (const channel of ["vibration", "vacuum"] as const) {
+    const band = channels[channel];
+    if (band !== "off") {
+      levels[channel] = bandLevels(
+        features.bands[band],
+        features.resolution,
+        mapping,
+      );
+    }
+  }
+
+  const windows = features.bands.envelope.length;
+  const sampleAt = (i: number): ActuatorLevels => ({
+    vibration: levels.vibration?.[i],
+    vacuum: levels.vacuum?.[i],
+  });
+  const samples: TimelineSample[] = Array.from({ length: windows }, (_, i) => ({
+    at: i * features.resolution,
+    levels: sampleAt(i),
+  }));
+  samples.push({
+    at: Math.round(features.duration),
+    levels: sampleAt(windows - 1),
+  });
+  return samples;
+}
+
+// Peak of each channel, for the session plan
+export function audioPeaks(samples: TimelineSample[]): ActuatorLevels {
+  const peaks: ActuatorLevels = {};
+  for (const { levels } of samples) {
+    for (const channel of ["vibration", "vacuum"] as const) {
+      const level = levels[channel];
+      if (level !== undefined) {
+        peaks[channel] = Math.max(peaks[channel] ?? 0, level);
+      }
+    }
+  }
+  return peaks;
+}
+
+// e.g. "mean 0.41, peak 0.95 ▁▂▅█▇▃▂▁…"
+function describeChannel(levels: number[]): string {
+  const mean = levels.reduce((sum, level) => sum + level, 0) / levels.length;
+  const peak = Math.max(...levels);
+  const buckets = Math.min(PREVIEW_WIDTH, levels.length);
+  let sparkline = "";
+  for (let i = 0; i < buckets; i++) {
+    const bucket = levels.slice(
+      Math.floor((i * levels.length) / buckets),
+      Math.floor(((i + 1) * levels.length) / buckets),
+    );
+    const level = bucket.reduce((sum, level) => sum + level, 0) / bucket.length;
+    sparkline +=
+      SPARKS[Math.min(SPARKS.length - 1, Math.floor(level * SPARKS.length))];
+  }
+  return `mean ${mean.toFixed(2)}, peak ${peak.toFixed(2)} ${sparkline}`;
+}
+
+/**
+ * One-paragraph preview of what playing the samples will do: the audio's
+ * format and length, and each channel's band, average and peak level and a
+ * sparkline of its level over time.
+ */
+export function describeAudioPreview(
+  audio: AudioData,
+  features: AudioFeatures,
+  channels: AudioChannels,
+  samples: TimelineSample[],
+): string {
+  const lines = [
+    `audio: ${(features.audioDuration / 1000).toFixed(1)}s, ${audio.sampleRate}Hz, ${audio.channels} channel${audio.channels === 1 ? "" : "s"}, ${audio.encoding}${features.duration < features.audioDuration ? ` (playing the first ${MAX_AUDIO_DURATION / 1000}s)` : ""}`,
+  ];
+  for (const channel of ["vibration", "vacuum"] as const) {
+    // The last sample only marks the end of the audio
+    const levels = samples
+      .slice(0, -1)
+      .map((sample) => sample.levels[channel])
+      .filter((level) => level !== undefined);
+    lines.push(
+      `${channel} (${channels[channel]}): ${levels.length > 0 ? describeChannel(levels) : "off"}`,
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,420 @@
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { z } from "zod";
+import { SamNeoVersion } from "./device.js";
+
+// Whether a listen address only accepts connections from this machine
+export function isLoopbackHost(host: string): boolean {
+  return host === "localhost" || host === "::1" || /^127\./.test(host);
+}
+
+// A flag, or its text form from an environment variable or config file
+const booleanSchema = z.union([
+  z.boolean(),
+  z
+    .enum(["true", "false", "1", "0"])
+    .transform((value) => value === "true" || value === "1"),
+]);
+
+export const configSchema = z
+  .object({
+    serverUrl: z
+      .string()
+      .url()
+      .default("ws://localhost:12345")
+      .describe("Intiface / Buttplug server websocket URL"),
+    clientName: z
+      .string()
+      .min(1)
+      .default("mcp-svakom-samneo")
+      .describe("Client name announced to the Buttplug server"),
+    scanTimeout: z.coerce
+      .number()
+      .int()
+      .min(1000)
+      .max(600000)
+      .default(15000)
+      .describe("How long to scan for a Sam Neo device in milliseconds"),
+    devicePatterns: z
+      .array(z.string().min(1))
+      .min(1)
+      .default(["svakom sam neo", "sam neo", "samneo"])
+      .describe(
+        "Case-insensitive substrings that identify a Sam Neo device name",
+      ),
+    preferredDevice: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "Name (or part of it) of the device to pick when several Sam Neo devices are available",
+      ),
+    dataDir: z
+      .string()
+      .min(1)
+      .default(join(homedir(), ".mcp-svakom-samneo"))
+      .describe("Directory where saved patterns and other data are stored"),
+    recordSessions: booleanSchema
+      .default(false)
+      .describe(
+        "Write every session to a recording under <dataDir>/recordings that Svakom-Sam-Neo-Replay can play back",
+      ),
+    maxVibration: z.coerce
+      .number()
+      .min(0)
+      .max(1)
+      .default(1)
+      .describe("Highest vibration level ever sent to a device (0.0 to 1.0)"),
+    maxVacuum: z.coerce
+      .number()
+      .min(0)
+      .max(1)
+      .default(1)
+      .describe("Highest vacuum level ever sent to a device (0.0 to 1.0)"),
+    maxRunTime: z.coerce
+      .number()
+      .int()
+      .min(1000)
+      .optional()
+      .describe(
+        "Longest a device may run without a break in milliseconds, across back-to-back sessions",
+      ),
+    hourlyBudget: z.coerce
+      .number()
+      .int()
+      .min(1000)
+      .max(3600000)
+      .optional()
+      .describe(
+        "Total run time a device may use within any hour in milliseconds",
+      ),
+    sessionCooldown: z.coerce
+      .number()
+      .int()
+      .min(0)
+      .default(0)
+      .describe(
+        "Minimum pause between the end of one run and the start of the next in milliseconds",
+      ),
+    vibrationSlewRate: z.coerce
+      .number()
+      .min(0.1)
+      .max(100)
+      .optional()
+      .describe(
+        "Fastest the vibration level may change, in levels per second (1 = 0 to full in one second)",
+      ),
+    vacuumSlewRate: z.coerce
+      .number()
+      .min(0.1)
+      .max(100)
+      .optional()
+      .describe(
+        "Fastest the vacuum level may change, in levels per second (1 = 0 to full in one second)",
+      ),
+    simulate: booleanSchema
+      .default(false)
+      .describe(
+        "Run against simulated devices that record every command instead of connecting to Intiface",
+      ),
+    simulateProfiles: z
+      .array(z.nativeEnum(SamNeoVersion))
+      .min(1)
+      .default([SamNeoVersion.ORIGINAL, SamNeoVersion.NEO2_SERIES])
+      .describe("Which Sam Neo versions to simulate, one device each"),
+    stdio: booleanSchema
+      .default(true)
+      .describe("Serve MCP over stdin/stdout to the client that spawned it"),
+    httpPort: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(65535)
+      .optional()
+      .describe(
+        "Also serve MCP over Streamable HTTP on this port (off when not set)",
+      ),
+    httpHost: z
+      .string()
+      .min(1)
+      .default("127.0.0.1")
+      .describe("Address the HTTP transport listens on"),
+    httpToken: z
+      .string()
+      .min(16)
+      .optional()
+      .describe(
+        "Bearer token HTTP clients must send; required when httpPort is set",
+      ),
+    httpAllowedHosts: z
+      .array(z.string().min(1))
+      .optional()
+      .describe(
+        "Host header values (host:port) HTTP requests may carry, against DNS rebinding; defaults to httpHost and the loopback names with httpPort",
+      ),
+    httpSessionTimeout: z.coerce
+      .number()
+      .int()
+      .min(1000)
+      .default(30 * 60 * 1000)
+      .describe(
+        "Milliseconds an HTTP client session may sit idle before it's closed",
+      ),
+    inputHost: z
+      .string()
+      .min(1)
+      .default("127.0.0.1")
+      .describe(
+        "Address the input server started by Svakom-Sam-Neo-Input-Start listens on",
+      ),
+    inputToken: z
+      .string()
+      .min(16)
+      .optional()
+      .describe(
+        "Token WebSocket input clients must send; required when inputHost isn't a loopback address",
+      ),
+    inputOrigins: z
+      .array(z.string().min(1))
+      .default([])
+      .describe(
+        "Web page origins (e.g. http://localhost:3000) allowed to open an input WebSocket; connections without an Origin header are always allowed",
+      ),
+    logLevel: z
+      .enum(["debug", "info", "warning", "error"])
+      .default("info")
+      .describe(
+        "Least severe level logged to stderr and the log file, and forwarded to MCP clients until they pick their own",
+      ),
+    logFormat: z
+      .enum(["pretty", "json"])
+      .default("pretty")
+      .describe("pretty: one readable line per entry; json: one JSON object"),
+    logFile: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Also write the log to this file, rotating it as it grows"),
+    logFileMaxSize: z.coerce
+      .number()
+      .int()
+      .min(1024)
+      .default(5 * 1024 * 1024)
+      .describe("Size in bytes at which the log file is rotated"),
+    logFiles: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(20)
+      .default(3)
+      .describe("How many rotated log files to keep"),
+  })
+  .strict()
+  .superRefine((config, ctx) => {
+    if (config.httpPort !== undefined && config.httpToken === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["httpToken"],
+        message: "Required when httpPort is set",
+      });
+    }
+    if (!isLoopbackHost(config.inputHost) && config.inputToken === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["inputToken"],
+        message: "Required when inputHost isn't a loopback address",
+      });
+    }
+    if (!config.stdio && config.httpPort === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["stdio"],
+        message: "Can only be turned off when httpPort is set",
+      });
+    }
+  });
+
+export type Config = z.infer<typeof configSchema>;
+
+// Raw, unvalidated values from one config source
+type ConfigLayer = Record<string, unknown>;
+
+const ENV_PREFIX = "SAMNEO_";
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+// Drop keys that a source didn't set so they don't shadow lower layers
+function defined(values: ConfigLayer): ConfigLayer {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined),
+  );
+}
+
+function readArgs(argv: string[]) {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      config: { type: "string", short: "c" },
+      "server-url": { type: "string" },
+      "client-name": { type: "string" },
+      "scan-timeout": { type: "string" },
+      "device-pattern": { type: "string", multiple: true },
+      "preferred-device": { type: "string" },
+      "data-dir": { type: "string" },
+      "record-sessions": { type: "boolean" },
+      "max-vibration": { type: "string" },
+      "max-vacuum": { type: "string" },
+      "max-run-time": { type: "string" },
+      "hourly-budget": { type: "string" },
+      "session-cooldown": { type: "string" },
+      "vibration-slew-rate": { type: "string" },
+      "vacuum-slew-rate": { type: "string" },
+      simulate: { type: "boolean" },
+      "simulate-profile": { type: "string", multiple: true },
+      "no-stdio": { type: "boolean" },
+      "http-port": { type: "string" },
+      "http-host": { type: "string" },
+      "http-token": { type: "string" },
+      "http-allowed-host": { type: "string", multiple: true },
+      "http-session-timeout": { type: "string" },
+      "input-host": { type: "string" },
+      "input-token": { type: "string" },
+      "input-origin": { type: "string", multiple: true },
+      "log-level": { type: "string" },
+      "log-format": { type: "string" },
+      "log-file": { type: "string" },
+      "log-file-max-size": { type: "string" },
+      "log-files": { type: "string" },
+    },
+  });
+
+  return {
+    configFile: values.config,
+    config: defined({
+      serverUrl: values["server-url"],
+      clientName: values["client-name"],
+      scanTimeout: values["scan-timeout"],
+      devicePatterns: values["device-pattern"]?.flatMap(splitList),
+      preferredDevice: values["preferred-device"],
+      dataDir: values["data-dir"],
+      recordSessions: values["record-sessions"],
+      maxVibration: values["max-vibration"],
+      maxVacuum: values["max-vacuum"],
+      maxRunTime: values["max-run-time"],
+      hourlyBudget: values["hourly-budget"],
+      sessionCooldown: values["session-cooldown"],
+      vibrationSlewRate: values["vibration-slew-rate"],
+      vacuumSlewRate: values["vacuum-slew-rate"],
+      simulate: values.simulate,
+      simulateProfiles: values["simulate-profile"]?.flatMap(splitList),
+      stdio: values["no-stdio"] ? false : undefined,
+      httpPort: values["http-port"],
+      httpHost: values["http-host"],
+      httpToken: values["http-token"],
+      httpAllowedHosts: values["http-allowed-host"]?.flatMap(splitList),
+      httpSessionTimeout: values["http-session-timeout"],
+      inputHost: values["input-host"],
+      inputToken: values["input-token"],
+      inputOrigins: values["input-origin"]?.flatMap(splitList),
+      logLevel: values["log-level"],
+      logFormat: values["log-format"],
+      logFile: values["log-file"],
+      logFileMaxSize: values["log-file-max-size"],
+      logFiles: values["log-files"],
+    }),
+  };
+}
+
+function readEnv(env: NodeJS.ProcessEnv) {
+  const patterns = env[`${ENV_PREFIX}DEVICE_PATTERNS`];
+  const profiles = env[`${ENV_PREFIX}SIMULATE_PROFILES`];
+  const allowedHosts = env[`${ENV_PREFIX}HTTP_ALLOWED_HOSTS`];
+  const origins = env[`${ENV_PREFIX}INPUT_ORIGINS`];
+  return {
+    configFile: env[`${ENV_PREFIX}CONFIG`],
+    config: defined({
+      serverUrl: env[`${ENV_PREFIX}SERVER_URL`],
+      clientName: env[`${ENV_PREFIX}CLIENT_NAME`],
+      scanTimeout: env[`${ENV_PREFIX}SCAN_TIMEOUT`],
+      devicePatterns: patterns ? splitList(patterns) : undefined,
+      preferredDevice: env[`${ENV_PREFIX}PREFERRED_DEVICE`],
+      dataDir: env[`${ENV_PREFIX}DATA_DIR`],
+      recordSessions: env[`${ENV_PREFIX}RECORD_SESSIONS`],
+      maxVibration: env[`${ENV_PREFIX}MAX_VIBRATION`],
+      maxVacuum: env[`${ENV_PREFIX}MAX_VACUUM`],
+      maxRunTime: env[`${ENV_PREFIX}MAX_RUN_TIME`],
+      hourlyBudget: env[`${ENV_PREFIX}HOURLY_BUDGET`],
+      sessionCooldown: env[`${ENV_PREFIX}SESSION_COOLDOWN`],
+      vibrationSlewRate: env[`${ENV_PREFIX}VIBRATION_SLEW_RATE`],
+      vacuumSlewRate: env[`${ENV_PREFIX}VACUUM_SLEW_RATE`],
+      simulate: env[`${ENV_PREFIX}SIMULATE`],
+      simulateProfiles: profiles ? splitList(profiles) : undefined,
+      stdio: env[`${ENV_PREFIX}STDIO`],
+      httpPort: env[`${ENV_PREFIX}HTTP_PORT`],
+      httpHost: env[`${ENV_PREFIX}HTTP_HOST`],
+      httpToken: env[`${ENV_PREFIX}HTTP_TOKEN`],
+      httpAllowedHosts: allowedHosts ? splitList(allowedHosts) : undefined,
+      httpSessionTimeout: env[`${ENV_PREFIX}HTTP_SESSION_TIMEOUT`],
+      inputHost: env[`${ENV_PREFIX}INPUT_HOST`],
+      inputToken: env[`${ENV_PREFIX}INPUT_TOKEN`],
+      inputOrigins: origins ? splitList(origins) : undefined,
+      logLevel: env[`${ENV_PREFIX}LOG_LEVEL`],
+      logFormat: env[`${ENV_PREFIX}LOG_FORMAT`],
+      logFile: env[`${ENV_PREFIX}LOG_FILE`],
+      logFileMaxSize: env[`${ENV_PREFIX}LOG_FILE_MAX_SIZE`],
+      logFiles: env[`${ENV_PREFIX}LOG_FILES`],
+    }),
+  };
+}
+
+function readConfigFile(path: string): ConfigLayer {
+  let raw: string;
+  try {
+    raw = readFileSync(path, "utf8");
+  } catch (e) {
+    throw new Error(`Cannot read config file ${path}: ${e}`);
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    throw new Error(`Config file ${path} is not valid JSON: ${e}`);
+  }
+}
+
+/**
+ * Resolves the server configuration. Precedence, highest first: CLI flags,
+ * SAMNEO_* environment variables, the JSON file named by --config or
+ * SAMNEO_CONFIG, then the schema defaults.
+ */
+export function loadConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env,
+): Config {
+  const args = readArgs(argv);
+  const fromEnv = readEnv(env);
+  const configFile = args.configFile ?? fromEnv.configFile;
+  const fromFile = configFile ? readConfigFile(configFile) : {};
+
+  const result = configSchema.safeParse({
+    ...fromFile,
+    ...fromEnv.config,
+    ...args.config,
+  });
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  ${issue.path.join(".")}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`Invalid configuration:\n${issues}`);
+  }
+
+  return result.data;
+}
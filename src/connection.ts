@@ -0,0 +1,303 @@
+import { EventEmitter } from "node:events";
+import {
+  ButtplugClient,
+  ButtplugNodeWebsocketClientConnector,
+  type ButtplugClientDevice,
+} from "buttplug";
+import { type Config } from "./config.js";
+import {
+  type DeviceSelector,
+  type SamNeoDevice,
+  detectSamNeoVersion,
+  isPreferredDevice,
+  isSamNeoDevice,
+} from "./device.js";
+import { SamNeoDriver } from "./driver.js";
+import { type SafetyLimiter } from "./safety.js";
+import { type CategorizedError } from "./errors.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Connection");
+
+export type ConnectionState = "connecting" | "scanning" | "ready";
+
+// Returned to tools while there is no Sam Neo to talk to
+export class DeviceUnavailableError extends Error implements CategorizedError {
+  readonly category = "device-disconnected";
+
+  constructor(state: ConnectionState) {
+    super(
+      state === "connecting"
+        ? "Device unavailable: not connected to Intiface, reconnecting in the background"
+        : "Device unavailable: no Sam Neo connected, scanning in the background",
+    );
+    this.name = "DeviceUnavailableError";
+  }
+}
+
+// A device was requested by index or name but isn't connected
+export class DeviceNotFoundError extends Error implements CategorizedError {
+  readonly category = "device-not-found";
+
+  constructor(selector: DeviceSelector, connected: SamNeoDriver[]) {
+    super(
+      `Device not found: ${JSON.stringify(selector)} (connected: ${connected.map((driver) => `${driver.device.index} "${driver.device.name}"`).join(", ")})`,
+    );
+    this.name = "DeviceNotFoundError";
+  }
+}
+
+const MIN_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+function backoff(attempt: number): number {
+  return Math.min(MAX_BACKOFF_MS, MIN_BACKOFF_MS * 2 ** attempt);
+}
+
+// ws reports a refused connection as an "error" event; without a listener
+// that event would crash the process instead of rejecting connect()
+class ResilientWebsocketConnector extends ButtplugNodeWebsocketClientConnector {
+  constructor(url: string) {
+    super(url);
+    const Base = this._websocketConstructor;
+    this._websocketConstructor = class extends Base {
+      constructor(...args: ConstructorParameters<typeof Base>) {
+        super(...args);
+        this.addEventListener("error", () => {});
+      }
+    } as typeof Base;
+  }
+}
+
+/**
+ * Keeps the connected Sam Neo devices available for the tools. Connects to
+ * Intiface and scans in the background, reconnects with backoff when Intiface
+ * goes away, and swaps in a fresh driver when a device drops and comes back.
+ * Every matching device gets its own driver, keyed by its Buttplug index.
+ *
+ * Emits "deviceready" (driver) and "devicelost" (driver).
+ */
+export class ConnectionManager extends EventEmitter {
+  private client: ButtplugClient | undefined;
+  private readonly drivers = new Map<number, SamNeoDriver>();
+  private connectAttempt = 0;
+  private scanAttempt = 0;
+  private scanTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly config: Config,
+    private readonly limiter: SafetyLimiter,
+  ) {
+    super();
+  }
+
+  get state(): ConnectionState {
+    if (this.drivers.size > 0) return "ready";
+    return this.client ? "scanning" : "connecting";
+  }
+
+  // Every connected Sam Neo, in Buttplug index order
+  get devices(): SamNeoDriver[] {
+    return [...this.drivers.values()].sort(
+      (a, b) => a.device.index - b.device.index,
+    );
+  }
+
+  // The device tools use when no selector is given: preferred, else first
+  get driver(): SamNeoDriver | undefined {
+    const devices = this.devices;
+    return (
+      devices.find((driver) =>
+        isPreferredDevice(driver.device.name, this.config),
+      ) ?? devices[0]
+    );
+  }
+
+  requireDriver(selector?: DeviceSelector): SamNeoDriver {
+    const devices = this.devices;
+    if (devices.length === 0) throw new DeviceUnavailableError(this.state);
+    if (selector === undefined) return this.driver!;
+
+    const index =
+      typeof selector === "number"
+        ? selector
+        : /^\d+$/.test(selector.trim())
+          ? Number(selector)
+          : undefined;
+    const match =
+      index !== undefined
+        ? this.drivers.get(index)
+        : devices.find((driver) =>
+            driver.device.name
+              .toLowerCase()
+              .includes(String(selector).toLowerCase()),
+          );
+
+    if (!match) throw new DeviceNotFoundError(selector, devices);
+    return match;
+  }
+
+  start(): void {
+    void this.connect();
+  }
+
+  // Uses the given stand-in devices instead of connecting to Intiface
+  simulate(devices: SamNeoDevice[]): void {
+    log.info("Simulating devices, Intiface not used", {
+      devices: devices.length,
+    });
+    for (const device of devices) {
+      this.attach(device);
+    }
+  }
+
+  private async connect(): Promise<void> {
+    const client = new ButtplugClient(this.config.clientName);
+    client.on("deviceadded", (device) => this.onDeviceAdded(device));
+    client.on("deviceremoved", (device) => this.onDeviceRemoved(device));
+    client.on("disconnect", () => this.onDisconnect(client));
+
+    try {
+      log.info("Connecting to Intiface", { url: this.config.serverUrl });
+      this.client = client;
+      await client.connect(
+        new ResilientWebsocketConnector(this.config.serverUrl),
+      );
+    } catch (e) {
+      this.client = undefined;
+      client.removeAllListeners();
+      const delay = backoff(this.connectAttempt++);
+      log.warning("Cannot reach Intiface, retrying", {
+        url: this.config.serverUrl,
+        error: e ?? "connection refused",
+        retryIn: delay,
+      });
+      setTimeout(() => void this.connect(), delay);
+      return;
+    }
+
+    log.info("Connected to Intiface");
+    this.connectAttempt = 0;
+    this.scanAttempt = 0;
+    await this.scan();
+  }
+
+  private async scan(): Promise<void> {
+    const client = this.client;
+    if (!client?.connected) return;
+
+    log.info("Scanning");
+    try {
+      await client.startScanning();
+    } catch (e) {
+      log.warning("Failed to start scanning", { error: e });
+    }
+
+    clearTimeout(this.scanTimer);
+    this.scanTimer = setTimeout(
+      () => void this.onScanTimeout(client),
+      this.config.scanTimeout,
+    );
+  }
+
+  // Each scan runs for scanTimeout so several devices can be picked up; it
+  // only repeats while no Sam Neo is connected
+  private async onScanTimeout(client: ButtplugClient): Promise<void> {
+    if (client !== this.client) return;
+
+    try {
+      await client.stopScanning();
+    } catch (e) {
+      log.warning("Failed to stop scanning", { error: e });
+    }
+
+    if (this.drivers.size > 0) {
+      this.scanAttempt = 0;
+      log.info("Scan finished", {
+        devices: this.devices.map(
+          (driver) => `${driver.device.name} (${driver.version})`,
+        ),
+      });
+      if (
+        this.config.preferredDevice &&
+        !this.devices.some((driver) =>
+          isPreferredDevice(driver.device.name, this.config),
+        )
+      ) {
+        log.warning("Preferred device not found", {
+          preferred: this.config.preferredDevice,
+          using: this.driver!.device.name,
+        });
+      }
+      return;
+    }
+
+    const delay = backoff(this.scanAttempt++);
+    log.info("No Sam Neo found, scanning again", {
+      scanTimeout: this.config.scanTimeout,
+      retryIn: delay,
+    });
+    this.scanTimer = setTimeout(() => void this.scan(), delay);
+  }
+
+  private onDeviceAdded(device: ButtplugClientDevice) {
+    if (!isSamNeoDevice(device.name, this.config.devicePatterns)) {
+      log.info("Ignoring device, not a Sam Neo", { device: device.name });
+      return;
+    }
+
+    log.info("Sam Neo found", { device: device.name });
+    this.attach(device);
+  }
+
+  private onDeviceRemoved(device: ButtplugClientDevice) {
+    if (!this.drivers.has(device.index)) return;
+
+    log.warning("Device removed", { device: device.name });
+    this.detach(device.index);
+    void this.scan();
+  }
+
+  private onDisconnect(client: ButtplugClient) {
+    if (client !== this.client) return;
+
+    log.warning("Disconnected from Intiface, reconnecting");
+    client.removeAllListeners();
+    this.client = undefined;
+    clearTimeout(this.scanTimer);
+    for (const index of [...this.drivers.keys()]) {
+      this.detach(index);
+    }
+
+    const delay = backoff(this.connectAttempt++);
+    setTimeout(() => void this.connect(), delay);
+  }
+
+  private attach(device: SamNeoDevice) {
+    log.debug("Device capabilities", {
+      device: device.name,
+      messageAttributes: device.messageAttributes,
+    });
+
+    // Detect device version
+    const deviceVersion = detectSamNeoVersion(device);
+
+    // Resolve actuators once; every tool shares this command path
+    const driver = new SamNeoDriver(device, deviceVersion, this.limiter);
+    this.drivers.set(device.index, driver);
+    log.info("Device connected", {
+      device: device.name,
+      version: deviceVersion,
+      index: device.index,
+    });
+    this.emit("deviceready", driver);
+  }
+
+  private detach(index: number) {
+    const lost = this.drivers.get(index);
+    if (!lost) return;
+
+    this.drivers.delete(index);
+    this.emit("devicelost", lost);
+  }
+}
@@ -0,0 +1,103 @@
+import { type ButtplugClientDevice } from "buttplug";
+import { z } from "zod";
+import { type Config } from "./config.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Device");
+
+// The part of a Buttplug device the server uses; also implemented by the
+// simulator
+export type SamNeoDevice = Pick<
+  ButtplugClientDevice,
+  | "name"
+  | "index"
+  | "messageAttributes"
+  | "vibrate"
+  | "scalar"
+  | "linear"
+  | "stop"
+>;
+
+// Sam Neo device version enum
+export enum SamNeoVersion {
+  ORIGINAL = "original",
+  NEO2_SERIES = "neo2_series", // Covers both Neo2 and Neo2 Pro (same capabilities)
+}
+
+// Detect Sam Neo device version based on capabilities
+export function detectSamNeoVersion(device: SamNeoDevice): SamNeoVersion {
+  const scalarCmds = device.messageAttributes.ScalarCmd;
+
+  if (!scalarCmds || !Array.isArray(scalarCmds)) {
+    log.warning("No ScalarCmd found, defaulting to original Sam Neo", {
+      device: device.name,
+    });
+    return SamNeoVersion.ORIGINAL;
+  }
+
+  // Count ActuatorTypes
+  const actuatorTypes = scalarCmds.map((cmd) => cmd.ActuatorType);
+  const hasConstrict = actuatorTypes.includes("Constrict" as any);
+  const vibrateCount = actuatorTypes.filter(
+    (type) => type === "Vibrate",
+  ).length;
+
+  log.debug("Device actuators", {
+    device: device.name,
+    actuatorTypes,
+    vibrateCount,
+    hasConstrict,
+  });
+
+  if (hasConstrict && vibrateCount === 1) {
+    log.info("Detected Sam Neo 2 Series (Vibrate + Constrict)", {
+      device: device.name,
+    });
+    return SamNeoVersion.NEO2_SERIES;
+  } else if (vibrateCount >= 2) {
+    log.info("Detected original Sam Neo (multiple vibrators)", {
+      device: device.name,
+    });
+    return SamNeoVersion.ORIGINAL;
+  } else {
+    log.warning("Unknown configuration, defaulting to original Sam Neo", {
+      device: device.name,
+      actuatorTypes,
+    });
+    return SamNeoVersion.ORIGINAL;
+  }
+}
+
+export function isSamNeoDevice(
+  deviceName: string,
+  patterns: string[],
+): boolean {
+  const normalizedName = deviceName.toLowerCase();
+  const matches = patterns.some((pattern) =>
+    normalizedName.includes(pattern.toLowerCase()),
+  );
+  log.debug("Matched device name against patterns", {
+    device: deviceName,
+    patterns,
+    matches,
+  });
+  return matches;
+}
+
+export function isPreferredDevice(deviceName: string, config: Config): boolean {
+  return (
+    config.preferredDevice !== undefined &&
+    deviceName.toLowerCase().includes(config.preferredDevice.toLowerCase())
+  );
+}
+
+// Device index as listed by Svakom-Sam-Neo-Devices, or part of its name
+export type DeviceSelector = number | string;
+
+// Optional `device` parameter shared by every device tool
+export const deviceParam = z
+  .union([z.number().int().min(0), z.string().min(1)])
+  .optional()
+  .describe(
+    "Target device: index or name from Svakom-Sam-Neo-Devices (defaults to the preferred or first connected Sam Neo)",
+  );
@@ -0,0 +1,341 @@
+import { EventEmitter } from "node:events";
+import { ActuatorType } from "buttplug";
+import { type SamNeoDevice, SamNeoVersion } from "./device.js";
+import { type SafetyLimiter } from "./safety.js";
+import { type CategorizedError } from "./errors.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Driver");
+
+// Levels for the two logical channels of a Sam Neo (0.0 to 1.0)
+export interface ActuatorLevels {
+  vibration?: number;
+  vacuum?: number;
+}
+
+// A ScalarCmd actuator resolved from the device's message attributes
+export interface ResolvedActuator {
+  index: number;
+  actuatorType: ActuatorType;
+}
+
+// None of the suction command paths worked on this device
+export class ActuatorUnsupportedError
+  extends Error
+  implements CategorizedError
+{
+  readonly category = "actuator-unsupported";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ActuatorUnsupportedError";
+  }
+}
+
+// One way of driving the suction channel, e.g. "Constrict@1" or "Linear"
+interface VacuumPath {
+  name: string;
+  send: (level: number) => Promise<void>;
+}
+
+const SUCTION_ACTUATOR_TYPES = [ActuatorType.Constrict, ActuatorType.Inflate];
+
+const CHANNELS = ["vibration", "vacuum"] as const;
+
+// Interval between the commands of a slew-rate ramp
+const SLEW_STEP_MS = 50;
+
+function clampLevel(level: number): number {
+  return Math.min(1, Math.max(0, level));
+}
+
+function findScalarActuators(
+  device: SamNeoDevice,
+  actuatorType: ActuatorType,
+): ResolvedActuator[] {
+  return (device.messageAttributes.ScalarCmd ?? [])
+    .filter((cmd) => cmd.ActuatorType === actuatorType)
+    .map((cmd) => ({ index: cmd.Index, actuatorType: cmd.ActuatorType }));
+}
+
+function scalarPath(
+  device: SamNeoDevice,
+  actuator: ResolvedActuator,
+): VacuumPath {
+  return {
+    name: `${actuator.actuatorType}@${actuator.index}`,
+    send: (level) =>
+      device.scalar([
+        {
+          Index: actuator.index,
+          Scalar: level,
+          ActuatorType: actuator.actuatorType,
+        },
+      ]),
+  };
+}
+
+/**
+ * Single command path for every tool. Actuators are resolved once from the
+ * device's ScalarCmd attributes, and the first suction path that works is
+ * remembered so later calls go straight to it. Every level passes through the
+ * safety limiter (caps and slew rate) first. Writes, ramp steps and stops go
+ * to the device one at a time, in order, each starting from the levels the
+ * previous one left. Emits "levels" with the new levels after every
+ * successful write, and "command" with just the channels that write set.
+ */
+export class SamNeoDriver extends EventEmitter {
+  readonly vibration: ResolvedActuator | undefined;
+  readonly suction: ResolvedActuator | undefined;
+
+  private readonly vacuumPaths: VacuumPath[];
+  private workingVacuumPath: VacuumPath | undefined;
+  private readonly levels = { vibration: 0, vacuum: 0 };
+  // Levels still being ramped towards, per channel
+  private targets: ActuatorLevels = {};
+  private rampTimer: NodeJS.Timeout | undefined;
+  private lastStepAt = 0;
+  // Settles once the last queued write has
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    readonly device: SamNeoDevice,
+    readonly version: SamNeoVersion,
+    private readonly limiter: SafetyLimiter,
+  ) {
+    super();
+    const vibrators = findScalarActuators(device, ActuatorType.Vibrate);
+
+    if (version === SamNeoVersion.ORIGINAL) {
+      // Original Sam Neo: vibrator 1 for vibration, vibrator 2 for vacuum
+      this.vibration = vibrators[0];
+      this.suction = vibrators[1];
+      this.vacuumPaths = [];
+    } else {
+      this.vibration = vibrators[0] ?? {
+        index: 0,
+        actuatorType: ActuatorType.Vibrate,
+      };
+      this.suction = SUCTION_ACTUATOR_TYPES.map(
+        (type) => findScalarActuators(device, type)[0],
+      ).find((actuator) => actuator !== undefined);
+      this.vacuumPaths = this.buildVacuumPaths();
+    }
+
+    log.info("Resolved actuators", {
+      device: device.name,
+      version,
+      vibration: this.vibration,
+      suction: this.suction,
+      vacuumPaths:
+        this.vacuumPaths.map((path) => path.name).join(", ") || "dual vibrate",
+    });
+  }
+
+  // Name of the command path currently used for suction
+  get vacuumMethod(): string {
+    if (this.version === SamNeoVersion.ORIGINAL) return "DualVibrate";
+    return this.workingVacuumPath?.name ?? "unresolved";
+  }
+
+  // Last levels sent to the device
+  get currentLevels(): Required<ActuatorLevels> {
+    return { ...this.levels };
+  }
+
+  /**
+   * Resolves with a note for every channel the safety limiter capped. With a
+   * slew rate configured, a big change is ramped: the first step is sent
+   * right away and the rest follows in the background, so callers keep their
+   * timing. `instant` skips the ramp for changes that must land at once.
+   */
+  async setLevels(
+    requested: ActuatorLevels,
+    { instant = false }: { instant?: boolean } = {},
+  ): Promise<string[]> {
+    const { levels, clipped } = this.limiter.clip(requested);
+    const target: ActuatorLevels = {};
+    for (const channel of CHANNELS) {
+      const level = levels[channel];
+      if (level !== undefined) target[channel] = clampLevel(level);
+    }
+
+    if (instant) {
+      for (const channel of CHANNELS) {
+        if (target[channel] !== undefined) delete this.targets[channel];
+      }
+      await this.serialized(() => this.write(target));
+      return clipped;
+    }
+
+    Object.assign(this.targets, target);
+    await this.rampStep();
+    return clipped;
+  }
+
+  async stop(): Promise<void> {
+    this.targets = {};
+    clearTimeout(this.rampTimer);
+    this.rampTimer = undefined;
+    await this.serialized(async () => {
+      await this.device.stop();
+      this.levels.vibration = 0;
+      this.levels.vacuum = 0;
+      this.emit("levels", this.currentLevels);
+      this.emit("command", { vibration: 0, vacuum: 0 });
+    });
+  }
+
+  // Runs a device write once the ones queued before it have settled
+  private serialized<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writing.then(task);
+    this.writing = result.catch(() => {});
+    return result;
+  }
+
+  // Moves every ramping channel one slew step closer to its target
+  private rampStep(): Promise<void> {
+    return this.serialized(() => this.slewTowardsTargets());
+  }
+
+  private async slewTowardsTargets(): Promise<void> {
+    const now = Date.now();
+    const elapsed = Math.min(now - this.lastStepAt, SLEW_STEP_MS);
+    this.lastStepAt = now;
+
+    const next: ActuatorLevels = {};
+    for (const channel of CHANNELS) {
+      const target = this.targets[channel];
+      if (target === undefined) continue;
+      next[channel] = this.limiter.slew(
+        channel,
+        this.levels[channel],
+        target,
+        elapsed,
+      );
+      if (next[channel] === target) delete this.targets[channel];
+    }
+
+    if (Object.keys(this.targets).length > 0 && !this.rampTimer) {
+      this.rampTimer = setTimeout(() => {
+        this.rampTimer = undefined;
+        this.rampStep().catch((e) =>
+          log.error("Ramp step failed", { device: this.device.name, error: e }),
+        );
+      }, SLEW_STEP_MS);
+    }
+
+    await this.write(next);
+  }
+
+  private async write({ vibration, vacuum }: ActuatorLevels): Promise<void> {
+    if (vibration === undefined && vacuum === undefined) return;
+
+    if (this.version === SamNeoVersion.ORIGINAL) {
+      // Both vibrators are always written together, so keep the other channel
+      const next = {
+        vibration: vibration ?? this.levels.vibration,
+        vacuum: vacuum ?? this.levels.vacuum,
+      };
+      await this.device.vibrate([next.vibration, next.vacuum]);
+      this.levels.vibration = next.vibration;
+      this.levels.vacuum = next.vacuum;
+      this.emit("levels", this.currentLevels);
+      this.emit("command", { vibration, vacuum });
+      return;
+    }
+
+    if (vibration !== undefined) {
+      await this.device.scalar([
+        {
+          Index: this.vibration!.index,
+          Scalar: vibration,
+          ActuatorType: this.vibration!.actuatorType,
+        },
+      ]);
+      this.levels.vibration = vibration;
+    }
+
+    if (vacuum !== undefined) {
+      await this.sendVacuum(vacuum);
+      this.levels.vacuum = vacuum;
+    }
+
+    this.emit("levels", this.currentLevels);
+    this.emit("command", { vibration, vacuum });
+  }
+
+  private buildVacuumPaths(): VacuumPath[] {
+    const paths: VacuumPath[] = [];
+
+    if (this.suction) {
+      paths.push(scalarPath(this.device, this.suction));
+    }
+
+    if (this.device.messageAttributes.LinearCmd?.length) {
+      paths.push({
+        name: "Linear",
+        send: (level) => this.device.linear([[level, 100]]),
+      });
+    }
+
+    if (!this.suction) {
+      // Nothing advertised for suction: fall back to the known firmware layouts
+      paths.push(
+        scalarPath(this.device, {
+          index: 1,
+          actuatorType: ActuatorType.Constrict,
+        }),
+        scalarPath(this.device, {
+          index: 1,
+          actuatorType: ActuatorType.Inflate,
+        }),
+        scalarPath(this.device, {
+          index: 0,
+          actuatorType: ActuatorType.Inflate,
+        }),
+      );
+    }
+
+    return paths;
+  }
+
+  private async sendVacuum(level: number): Promise<void> {
+    if (this.workingVacuumPath) {
+      try {
+        await this.workingVacuumPath.send(level);
+        return;
+      } catch (error) {
+        log.warning("Vacuum path stopped working", {
+          device: this.device.name,
+          path: this.workingVacuumPath.name,
+          error,
+        });
+        this.workingVacuumPath = undefined;
+        throw error;
+      }
+    }
+
+    for (const path of this.vacuumPaths) {
+      try {
+        await path.send(level);
+        this.workingVacuumPath = path;
+        log.info("Vacuum path resolved", {
+          device: this.device.name,
+          path: path.name,
+        });
+        return;
+      } catch (error) {
+        log.warning("Vacuum path failed", {
+          device: this.device.name,
+          path: path.name,
+          error,
+        });
+      }
+    }
+
+    throw new ActuatorUnsupportedError(
+      `No working vacuum command path for ${this.device.name} (tried: ${this.vacuumPaths.map((path) => path.name).join(", ") || "none"})`,
+    );
+  }
+}
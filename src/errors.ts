@@ -0,0 +1,67 @@
+import {
+  ButtplugClientConnectorException,
+  ButtplugDeviceError,
+} from "buttplug";
+import { z } from "zod";
+
+export const errorCategorySchema = z
+  .enum([
+    "device-disconnected",
+    "device-not-found",
+    "actuator-unsupported",
+    "cancelled",
+    "limit-exceeded",
+    "not-found",
+    "invalid-input",
+    "internal",
+  ])
+  .describe(
+    "What kind of failure: device-disconnected (no Sam Neo or Intiface to talk to), device-not-found (no connected device matches the selector), actuator-unsupported (the device has no working command path for a channel), cancelled (stopped or replaced), limit-exceeded (a safety limit refused or cut it), not-found (no such pattern, recording or file), invalid-input (parameters or file contents that can't be played), internal (anything else)",
+  );
+
+export type ErrorCategory = z.infer<typeof errorCategorySchema>;
+
+// Errors that know their category carry it as `category`
+export interface CategorizedError extends Error {
+  readonly category: ErrorCategory;
+}
+
+// Parameters that pass the schema but can't be played as given
+export class InvalidInputError extends Error implements CategorizedError {
+  readonly category = "invalid-input";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidInputError";
+  }
+}
+
+function isCategorized(e: unknown): e is CategorizedError {
+  return (
+    e instanceof Error &&
+    errorCategorySchema.safeParse((e as Partial<CategorizedError>).category)
+      .success
+  );
+}
+
+/**
+ * Category of any thrown value. Errors that wrap another one (`cause`) take
+ * its category, so "Cannot read funscript" of a missing file is not-found.
+ */
+export function errorCategory(e: unknown): ErrorCategory {
+  if (isCategorized(e)) return e.category;
+  if (
+    e instanceof ButtplugDeviceError ||
+    e instanceof ButtplugClientConnectorException
+  ) {
+    return "device-disconnected";
+  }
+  if (e instanceof z.ZodError) return "invalid-input";
+  if ((e as NodeJS.ErrnoException | undefined)?.code === "ENOENT") {
+    return "not-found";
+  }
+  if (e instanceof Error && e.cause !== undefined) {
+    return errorCategory(e.cause);
+  }
+  return "internal";
+}
@@ -0,0 +1,139 @@
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import { type Keyframe, levelAt } from "./timeline.js";
+import { InvalidInputError } from "./errors.js";
+
+// Most actions a script may have, and longest it may play once speed and
+// offset are applied: every sample of it is computed before it starts
+const MAX_ACTIONS = 50000;
+const MAX_DURATION = 2 * 60 * 60 * 1000;
+
+const funscriptSchema = z.object({
+  actions: z
+    .array(
+      z.object({
+        at: z.number().min(0),
+        pos: z.number().min(0).max(100),
+      }),
+    )
+    .min(2)
+    .max(MAX_ACTIONS),
+  inverted: z.boolean().optional(),
+});
+
+export type Funscript = z.infer<typeof funscriptSchema>;
+
+export const funscriptMappingSchema = z
+  .enum(["position", "inverted-position", "speed", "off"])
+  .describe(
+    "How the script drives the channel: position (stroke depth), inverted-position (shallow = strong), speed (faster strokes = stronger) or off",
+  );
+
+export type FunscriptMapping = z.infer<typeof funscriptMappingSchema>;
+
+// Stroke speed (position units per second) that maps to full intensity
+const FULL_SPEED = 400;
+
+export async function loadFunscript(path: string): Promise<Funscript> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf8");
+  } catch (e) {
+    throw new Error(`Cannot read funscript ${path}: ${e}`, { cause: e });
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    // The parser's message quotes the file, which may not be a funscript
+    throw new InvalidInputError(`Funscript ${path} is not valid JSON`);
+  }
+
+  const result = funscriptSchema.safeParse(json);
+  if (!result.success) {
+    throw new InvalidInputError(
+      `Funscript ${path} is invalid: ${result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join(", ")}`,
+    );
+  }
+
+  const actions = [...result.data.actions].sort((a, b) => a.at - b.at);
+  return { ...result.data, actions };
+}
+
+export interface FunscriptTiming {
+  offset: number;
+  speed: number;
+  intensityScale: number;
+}
+
+// A negative offset skips the start of the script: keyframes before 0 are
+// cut, and the level they lead up to becomes the first keyframe. Scripts that
+// end past MAX_DURATION are refused
+function startAtZero(keyframes: Keyframe[]): Keyframe[] {
+  const first = keyframes.findIndex((keyframe) => keyframe.at >= 0);
+  if (first === -1) {
+    throw new InvalidInputError("offset skips past the end of the script");
+  }
+  const end = keyframes[keyframes.length - 1].at;
+  if (end > MAX_DURATION) {
+    throw new InvalidInputError(
+      `script plays for ${Math.round(end)}ms with this speed and offset, more than ${MAX_DURATION}ms`,
+    );
+  }
+  if (keyframes[first].at === 0) return keyframes.slice(first);
+  return [
+    { at: 0, level: levelAt(keyframes, 0), easing: "step" },
+    ...keyframes.slice(first),
+  ];
+}
+
+/**
+ * Converts a funscript into keyframes for one channel. Times are divided by
+ * the speed multiplier and then shifted by the offset, skipping whatever a
+ * negative offset moves before the start. Throws InvalidInputError for scripts
+ * that would play longer than two hours. Position mappings interpolate
+ * linearly between actions; the speed mapping holds each stroke's speed until
+ * the next action.
+ */
+export function funscriptToKeyframes(
+  script: Funscript,
+  mapping: Exclude<FunscriptMapping, "off">,
+  timing: FunscriptTiming,
+): Keyframe[] {
+  const time = (at: number) => at / timing.speed + timing.offset;
+  const position = (pos: number) => (script.inverted ? 100 - pos : pos) / 100;
+  const scale = (level: number) =>
+    Math.min(1, Math.max(0, level * timing.intensityScale));
+  const { actions } = script;
+
+  if (mapping === "speed") {
+    const keyframes: Keyframe[] = actions.slice(0, -1).map((action, i) => {
+      const next = actions[i + 1];
+      const seconds = (next.at - action.at) / timing.speed / 1000;
+      const speed = seconds > 0 ? Math.abs(next.pos - action.pos) / seconds : 0;
+      return {
+        at: time(action.at),
+        level: scale(speed / FULL_SPEED),
+        easing: "step",
+      };
+    });
+    keyframes.push({
+      at: time(actions[actions.length - 1].at),
+      level: 0,
+      easing: "step",
+    });
+    return startAtZero(keyframes);
+  }
+
+  return startAtZero(
+    actions.map((action) => {
+      const level = position(action.pos);
+      return {
+        at: time(action.at),
+        level: scale(mapping === "inverted-position" ? 1 - level : level),
+        easing: "linear",
+      };
+    }),
+  );
+}
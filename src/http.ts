@@ -0,0 +1,265 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import {
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+  createServer,
+} from "node:http";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { type Config } from "./config.js";
+import { onServerClose } from "./tools/server.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("HTTP");
+
+export type HttpConfig = Required<
+  Pick<Config, "httpPort" | "httpHost" | "httpToken" | "httpSessionTimeout">
+> &
+  Pick<Config, "httpAllowedHosts">;
+
+// The one path MCP is served on
+const MCP_PATH = "/mcp";
+
+// Largest request body accepted, in bytes
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const SESSION_HEADER = "mcp-session-id";
+
+// Longest time between two looks for idle client sessions
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Host headers a browser sends for this server, unless configured otherwise
+function defaultAllowedHosts({ httpHost, httpPort }: HttpConfig): string[] {
+  const hosts = [httpHost, "localhost", "127.0.0.1", "[::1]"];
+  return [...new Set(hosts)].map((host) =>
+    host.includes(":") && !host.startsWith("[")
+      ? `[${host}]:${httpPort}`
+      : `${host}:${httpPort}`,
+  );
+}
+
+// Compares in constant time so the token can't be guessed byte by byte
+export function tokenMatches(given: string, token: string): boolean {
+  const givenBytes = Buffer.from(given);
+  const expected = Buffer.from(token);
+  return (
+    givenBytes.length === expected.length &&
+    timingSafeEqual(givenBytes, expected)
+  );
+}
+
+// The token of an `Authorization: Bearer <token>` header
+export function bearerToken(req: IncomingMessage): string | undefined {
+  return /^Bearer (.+)$/i.exec(req.headers.authorization ?? "")?.[1];
+}
+
+function authorized(req: IncomingMessage, token: string): boolean {
+  const given = bearerToken(req);
+  return given !== undefined && tokenMatches(given, token);
+}
+
+function readBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error(`Request body over ${MAX_BODY_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch (e) {
+        reject(new Error(`Request body is not valid JSON: ${e}`));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+// Errors before a transport is involved, shaped like the SDK's own
+function sendError(
+  res: ServerResponse,
+  status: number,
+  message: string,
+  headers: Record<string, string> = {},
+) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers }).end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32000, message },
+      id: null,
+    }),
+  );
+}
+
+interface ClientSession {
+  transport: StreamableHTTPServerTransport;
+  // Requests still being answered, e.g. an open event stream
+  active: number;
+  lastActiveAt: number;
+}
+
+/**
+ * Serves MCP over Streamable HTTP next to (or instead of) stdio. Every client
+ * session gets its own McpServer from `createMcpServer`, all sharing the same
+ * devices and sessions; requests must carry the configured bearer token and
+ * one of the allowed Host headers. Sessions idle for httpSessionTimeout are
+ * closed.
+ */
+export class HttpTransportServer {
+  private readonly clients = new Map<string, ClientSession>();
+  private readonly http: Server;
+  private readonly allowedHosts: string[];
+  private sweeper?: NodeJS.Timeout;
+
+  constructor(
+    private readonly config: HttpConfig,
+    private readonly createMcpServer: () => McpServer,
+  ) {
+    this.allowedHosts = config.httpAllowedHosts ?? defaultAllowedHosts(config);
+    this.http = createServer((req, res) => {
+      this.handle(req, res).catch((e) => {
+        log.error("Failed to handle request", {
+          method: req.method,
+          url: req.url,
+          error: e,
+        });
+        if (!res.headersSent) sendError(res, 500, "Internal server error");
+      });
+    });
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.http.once("error", reject);
+      this.http.listen(this.config.httpPort, this.config.httpHost, () => {
+        this.http.off("error", reject);
+        this.sweeper = setInterval(
+          () => void this.closeIdle(),
+          Math.min(SWEEP_INTERVAL_MS, this.config.httpSessionTimeout / 2),
+        ).unref();
+        log.info("Serving MCP over HTTP", {
+          url: `http://${this.config.httpHost}:${this.config.httpPort}${MCP_PATH}`,
+          allowedHosts: this.allowedHosts,
+        });
+        resolve();
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.sweeper);
+    for (const { transport } of [...this.clients.values()]) {
+      await transport.close();
+    }
+    await new Promise<void>((resolve) => this.http.close(() => resolve()));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (path !== MCP_PATH) {
+      sendError(res, 404, "Not found");
+      return;
+    }
+    if (!authorized(req, this.config.httpToken)) {
+      sendError(res, 401, "Unauthorized", {
+        "WWW-Authenticate": 'Bearer realm="mcp"',
+      });
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === "POST") {
+      try {
+        body = await readBody(req);
+      } catch (e) {
+        sendError(res, 400, `${e}`);
+        return;
+      }
+    }
+
+    const sessionId = req.headers[SESSION_HEADER];
+    if (typeof sessionId === "string") {
+      const client = this.clients.get(sessionId);
+      if (!client) {
+        sendError(res, 404, "Session not found");
+        return;
+      }
+      client.active++;
+      res.once("close", () => {
+        client.active--;
+        client.lastActiveAt = Date.now();
+      });
+      await client.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    const initializing = Array.isArray(body)
+      ? body.some(isInitializeRequest)
+      : isInitializeRequest(body);
+    if (req.method !== "POST" || !initializing) {
+      sendError(res, 400, "Missing session id");
+      return;
+    }
+
+    const transport = await this.open();
+    await transport.handleRequest(req, res, body);
+  }
+
+  // A new client session: its own transport and McpServer
+  private async open(): Promise<StreamableHTTPServerTransport> {
+    const server = this.createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: true,
+      allowedHosts: this.allowedHosts,
+      onsessioninitialized: (id) => {
+        this.clients.set(id, {
+          transport,
+          active: 0,
+          lastActiveAt: Date.now(),
+        });
+        log.info("Client session opened", {
+          session: id,
+          open: this.clients.size,
+        });
+      },
+    });
+    onServerClose(server, () => {
+      const id = transport.sessionId;
+      if (id === undefined || !this.clients.delete(id)) return;
+      log.info("Client session closed", {
+        session: id,
+        open: this.clients.size,
+      });
+    });
+    await server.connect(transport);
+    return transport;
+  }
+
+  private async closeIdle(): Promise<void> {
+    const now = Date.now();
+    for (const [id, client] of this.clients) {
+      if (
+        client.active > 0 ||
+        now - client.lastActiveAt < this.config.httpSessionTimeout
+      ) {
+        continue;
+      }
+      log.info("Client session expired", { session: id });
+      await client.transport
+        .close()
+        .catch((error) =>
+          log.error("Failed to close client session", { session: id, error }),
+        );
+    }
+  }
+}
@@ -0,0 +1,546 @@
+import { type RemoteInfo, type Socket, createSocket } from "node:dgram";
+import { type IncomingMessage } from "node:http";
+import { performance } from "node:perf_hooks";
+import { WebSocketServer } from "ws";
+import { z } from "zod";
+import { type DeviceSelector } from "./device.js";
+import { type ActuatorLevels } from "./driver.js";
+import { type Pattern, type Session, type SessionManager } from "./sessions.js";
+import { type Config, isLoopbackHost } from "./config.js";
+import { InvalidInputError } from "./errors.js";
+import { bearerToken, tokenMatches } from "./http.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Input");
+
+export const inputProtocolSchema = z
+  .enum(["websocket", "osc"])
+  .describe(
+    'How values arrive: websocket (JSON text messages like {"vibration": 0.5}) or osc (OSC messages over UDP, e.g. /vibration 0.5)',
+  );
+
+export type InputProtocol = z.infer<typeof inputProtocolSchema>;
+
+export type InputConfig = Pick<
+  Config,
+  "inputHost" | "inputToken" | "inputOrigins"
+>;
+
+export const DEFAULT_INPUT_PORTS: Record<InputProtocol, number> = {
+  websocket: 8765,
+  osc: 9001,
+};
+
+// Largest WebSocket message accepted, in bytes
+const MAX_MESSAGE_BYTES = 64 * 1024;
+
+// Distinct signal names kept; values for further names are ignored
+const MAX_SIGNALS = 256;
+
+// Skip resending a level the device already has
+const LEVEL_EPSILON = 0.001;
+
+export const channelMappingSchema = z
+  .object({
+    signal: z
+      .string()
+      .min(1)
+      .max(200)
+      .describe(
+        "Input value that drives the channel: the JSON key over WebSocket, the address over OSC (e.g. /avatar/parameters/Intensity)",
+      ),
+    min: z.number().default(0).describe("Input value that maps to level 0"),
+    max: z.number().default(1).describe("Input value that maps to full level"),
+    invert: z
+      .boolean()
+      .default(false)
+      .describe("Map min to full level and max to 0 instead"),
+    scale: z
+      .number()
+      .min(0)
+      .max(1)
+      .default(1)
+      .describe("Level the channel reaches at max (0.0 to 1.0)"),
+    smoothing: z
+      .number()
+      .min(0)
+      .max(5000)
+      .default(100)
+      .describe(
+        "Milliseconds the level takes to follow the input (0 = follow every value at once)",
+      ),
+  })
+  .refine((mapping) => mapping.min !== mapping.max, {
+    message: "min and max must differ",
+  });
+
+export type ChannelMapping = z.infer<typeof channelMappingSchema>;
+
+// One named number received from an input source
+export interface InputValue {
+  signal: string;
+  value: number;
+}
+
+/**
+ * Reads the values of a WebSocket text message: a JSON object whose number
+ * (or boolean, as 1/0) properties are signals, e.g. {"vibration": 0.5}.
+ */
+export function parseJsonInput(text: string): InputValue[] {
+  const json: unknown = JSON.parse(text);
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new Error("Expected a JSON object of signal values");
+  }
+  return Object.entries(json).map(([signal, value]) => {
+    if (typeof value === "boolean") return { signal, value: value ? 1 : 0 };
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new Error(`Signal ${signal} is not a number`);
+    }
+    return { signal, value };
+  });
+}
+
+// OSC strings are null terminated and padded to a multiple of four bytes
+function readOscString(buffer: Buffer, offset: number): [string, number] {
+  const end = buffer.indexOf(0, offset);
+  if (end < 0) throw new Error("Unterminated OSC string");
+  return [
+    buffer.toString("utf8", offset, end),
+    offset + ((end - offset + 4) & ~3),
+  ];
+}
+
+/**
+ * Reads an OSC packet (a message, or a bundle of them). Each message gives
+ * its address as the signal and its first numeric argument as the value;
+ * messages without one are skipped.
+ */
+export function parseOscPacket(buffer: Buffer): InputValue[] {
+  if (buffer.toString("ascii", 0, 8) === "#bundle\0") {
+    const values: InputValue[] = [];
+    // Skip the time tag; values apply as they arrive
+    for (let offset = 16; offset < buffer.length;) {
+      const size = buffer.readInt32BE(offset);
+      if (size < 0 || offset + 4 + size > buffer.length) {
+        throw new Error("Truncated OSC bundle");
+      }
+      values.push(
+        ...parseOscPacket(buffer.subarray(offset + 4, offset + 4 + size)),
+      );
+      offset += 4 + size;
+    }
+    return values;
+  }
+
+  const [address, afterAddress] = readOscString(buffer, 0);
+  if (!address.startsWith("/")) throw new Error("Not an OSC message");
+  if (afterAddress >= buffer.length) return [];
+  const [tags, afterTags] = readOscString(buffer, afterAddress);
+  if (!tags.startsWith(",")) throw new Error("OSC message has no type tags");
+
+  let offset = afterTags;
+  for (const tag of tags.slice(1)) {
+    switch (tag) {
+      case "i":
+        return [{ signal: address, value: buffer.readInt32BE(offset) }];
+      case "f":
+        return [{ signal: address, value: buffer.readFloatBE(offset) }];
+      case "d":
+        return [{ signal: address, value: buffer.readDoubleBE(offset) }];
+      case "h":
+        return [
+          { signal: address, value: Number(buffer.readBigInt64BE(offset)) },
+        ];
+      case "T":
+        return [{ signal: address, value: 1 }];
+      case "F":
+        return [{ signal: address, value: 0 }];
+      case "s":
+      case "S":
+        offset = readOscString(buffer, offset)[1];
+        break;
+      case "b":
+        offset += 4 + ((buffer.readInt32BE(offset) + 3) & ~3);
+        break;
+      case "t":
+        offset += 8;
+        break;
+      case "c":
+      case "r":
+      case "m":
+        offset += 4;
+        break;
+      case "N":
+      case "I":
+        break;
+      default:
+        throw new Error(`Unsupported OSC type tag ${tag}`);
+    }
+  }
+  return [];
+}
+
+// A program sending values: a WebSocket connection, or an OSC sender
+export interface InputSource {
+  address: string;
+  // Set while a WebSocket is open; OSC over UDP has no connection
+  connectedAt?: number;
+  lastMessageAt?: number;
+  messages: number;
+}
+
+export interface SignalValue {
+  value: number;
+  // Date.now() when it arrived
+  at: number;
+}
+
+/**
+ * Listens on localhost (or the configured input host) for values from other
+ * programs, over WebSocket or OSC, and keeps the latest value of every
+ * signal. WebSocket clients must come from an allowed origin (or send none)
+ * and carry the input token when one is configured.
+ */
+export class InputServer {
+  private readonly signals = new Map<string, SignalValue>();
+  private readonly sources = new Map<string, InputSource>();
+  private wss?: WebSocketServer;
+  private socket?: Socket;
+  // Messages received, and those of them that couldn't be read
+  messages = 0;
+  rejected = 0;
+
+  constructor(
+    readonly protocol: InputProtocol,
+    readonly port: number,
+    private readonly config: InputConfig,
+  ) {}
+
+  get host(): string {
+    return this.config.inputHost;
+  }
+
+  get url(): string {
+    return this.protocol === "websocket"
+      ? `ws://${this.host}:${this.port}`
+      : `osc.udp://${this.host}:${this.port}`;
+  }
+
+  signal(name: string): SignalValue | undefined {
+    return this.signals.get(name);
+  }
+
+  // Latest values, most recent first
+  listSignals(): [string, SignalValue][] {
+    return [...this.signals.entries()].sort(([, a], [, b]) => b.at - a.at);
+  }
+
+  listSources(): InputSource[] {
+    return [...this.sources.values()];
+  }
+
+  async listen(): Promise<void> {
+    if (this.protocol === "websocket") {
+      await this.listenWebSocket();
+    } else {
+      await this.listenOsc();
+    }
+    log.info("Input server listening", { url: this.url });
+  }
+
+  async close(): Promise<void> {
+    const wss = this.wss;
+    const socket = this.socket;
+    this.wss = undefined;
+    this.socket = undefined;
+    if (wss) {
+      for (const client of wss.clients) client.terminate();
+      await new Promise<void>((resolve) => wss.close(() => resolve()));
+    }
+    if (socket) {
+      await new Promise<void>((resolve) => socket.close(() => resolve()));
+    }
+    if (wss || socket) log.info("Input server closed", { url: this.url });
+  }
+
+  private receive(address: string, parse: () => InputValue[]) {
+    const source = this.sources.get(address) ?? { address, messages: 0 };
+    this.sources.set(address, source);
+    source.messages++;
+    this.messages++;
+    source.lastMessageAt = Date.now();
+
+    let values: InputValue[];
+    try {
+      values = parse();
+    } catch (e) {
+      this.rejected++;
+      log.debug("Rejected input message", { source: address, error: e });
+      return;
+    }
+    for (const { signal, value } of values) {
+      if (this.signals.has(signal) || this.signals.size < MAX_SIGNALS) {
+        this.signals.set(signal, { value, at: Date.now() });
+      }
+    }
+  }
+
+  // Any web page open in a browser could otherwise connect to localhost
+  private admits(req: IncomingMessage): boolean {
+    const source = `${req.socket.remoteAddress}:${req.socket.remotePort}`;
+    const { origin } = req.headers;
+    if (origin !== undefined && !this.config.inputOrigins.includes(origin)) {
+      log.warning("Refused input client from another origin", {
+        source,
+        origin,
+      });
+      return false;
+    }
+
+    const { inputToken } = this.config;
+    if (inputToken === undefined) return true;
+    // Browsers can't set headers on a WebSocket, so ?token= works too
+    const given =
+      bearerToken(req) ??
+      new URL(req.url ?? "/", "ws://localhost").searchParams.get("token");
+    if (given === null || !tokenMatches(given, inputToken)) {
+      log.warning("Refused input client without the input token", { source });
+      return false;
+    }
+    return true;
+  }
+
+  private listenWebSocket(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const wss = new WebSocketServer({
+        host: this.host,
+        port: this.port,
+        maxPayload: MAX_MESSAGE_BYTES,
+        verifyClient: ({ req }: { req: IncomingMessage }) => this.admits(req),
+      });
+      wss.once("error", reject);
+      wss.once("listening", () => {
+        wss.off("error", reject);
+        wss.on("error", (e) => log.error("Input server error", { error: e }));
+        this.wss = wss;
+        resolve();
+      });
+      wss.on("connection", (ws, req: IncomingMessage) => {
+        const address = `${req.socket.remoteAddress}:${req.socket.remotePort}`;
+        this.sources.set(address, {
+          address,
+          connectedAt: Date.now(),
+          messages: 0,
+        });
+        log.info("Input client connected", { source: address });
+
+        ws.on("message", (data, isBinary) => {
+          this.receive(address, () => {
+            if (isBinary) throw new Error("Expected a text message");
+            return parseJsonInput(data.toString());
+          });
+        });
+        ws.on("close", () => {
+          this.sources.delete(address);
+          log.info("Input client disconnected", { source: address });
+        });
+      });
+    });
+  }
+
+  private listenOsc(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = createSocket("udp4");
+      socket.once("error", reject);
+      socket.on("message", (packet: Buffer, remote: RemoteInfo) => {
+        this.receive(`${remote.address}:${remote.port}`, () =>
+          parseOscPacket(packet),
+        );
+      });
+      socket.bind(this.port, this.host, () => {
+        socket.off("error", reject);
+        socket.on("error", (e) =>
+          log.error("Input server error", { error: e }),
+        );
+        this.socket = socket;
+        resolve();
+      });
+    });
+  }
+}
+
+/**
+ * Level a channel should head for: the signal scaled from min..max onto
+ * 0..scale, or 0 once the signal is older than `timeout` ms (or never came).
+ */
+export function targetLevel(
+  mapping: ChannelMapping,
+  signal: SignalValue | undefined,
+  now: number,
+  timeout: number,
+): number {
+  if (!signal || now - signal.at > timeout) return 0;
+  const position = Math.min(
+    1,
+    Math.max(0, (signal.value - mapping.min) / (mapping.max - mapping.min)),
+  );
+  return (mapping.invert ? 1 - position : position) * mapping.scale;
+}
+
+export interface InputOptions {
+  protocol: InputProtocol;
+  port: number;
+  // Channels without a mapping are left alone
+  vibration?: ChannelMapping;
+  vacuum?: ChannelMapping;
+  // Milliseconds between level updates
+  resolution: number;
+  // Milliseconds without a new value before a channel falls back to 0
+  timeout: number;
+  // Ends input mode after this many ms; otherwise it runs until stopped
+  duration?: number;
+}
+
+export interface InputMode {
+  server: InputServer;
+  session: Session;
+  options: InputOptions;
+}
+
+/**
+ * Runs input mode: an InputServer plus a session on the device that follows
+ * its signals. Being a session, input mode gets the safety limits, is
+ * cancelled by the emergency stop and by any other pattern started on the
+ * device, and closes its server when it ends. There's at most one at a time;
+ * starts and stops run one after another, in the order they were called.
+ */
+export class InputManager {
+  private current?: InputMode;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly sessions: SessionManager,
+    private readonly config: InputConfig,
+  ) {}
+
+  get mode(): InputMode | undefined {
+    return this.current;
+  }
+
+  // Replaces input mode that's already running
+  start(options: InputOptions, device?: DeviceSelector): Promise<InputMode> {
+    return this.serialized(() => this.startNow(options, device));
+  }
+
+  // Resolves with the input session once it has ended and its server closed
+  stop(): Promise<Session | undefined> {
+    return this.serialized(() => this.stopNow());
+  }
+
+  private serialized<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(task);
+    this.pending = result.catch(() => {});
+    return result;
+  }
+
+  private async startNow(
+    options: InputOptions,
+    device?: DeviceSelector,
+  ): Promise<InputMode> {
+    if (options.protocol === "osc" && !isLoopbackHost(this.config.inputHost)) {
+      throw new InvalidInputError(
+        "OSC can't carry the input token, so it only listens on a loopback inputHost; use websocket",
+      );
+    }
+    await this.stopNow();
+
+    const server = new InputServer(options.protocol, options.port, this.config);
+    await server.listen();
+    try {
+      const session = await this.sessions.start(
+        "Svakom-Sam-Neo-Input",
+        { ...options },
+        this.pattern(server, options),
+        device,
+        {
+          vibration: options.vibration?.scale,
+          vacuum: options.vacuum?.scale,
+          duration: options.duration,
+        },
+      );
+      this.current = { server, session, options };
+      return this.current;
+    } catch (e) {
+      await server.close();
+      throw e;
+    }
+  }
+
+  private async stopNow(): Promise<Session | undefined> {
+    const current = this.current;
+    if (!current) return undefined;
+    await this.sessions.cancel(current.session.id);
+    return current.session;
+  }
+
+  private pattern(server: InputServer, options: InputOptions): Pattern {
+    const channels = (["vibration", "vacuum"] as const).flatMap((channel) => {
+      const mapping = options[channel];
+      return mapping ? [{ channel, mapping }] : [];
+    });
+
+    return async (ctx) => {
+      const smoothed: ActuatorLevels = {};
+      const sent: ActuatorLevels = {};
+      const startedAt = performance.now();
+      let last = startedAt;
+
+      try {
+        while (
+          options.duration === undefined ||
+          performance.now() - startedAt < options.duration
+        ) {
+          const now = performance.now();
+          const changed: ActuatorLevels = {};
+          for (const { channel, mapping } of channels) {
+            const target = targetLevel(
+              mapping,
+              server.signal(mapping.signal),
+              Date.now(),
+              options.timeout,
+            );
+            const alpha =
+              mapping.smoothing > 0
+                ? 1 - Math.exp(-(now - last) / mapping.smoothing)
+                : 1;
+            const current = smoothed[channel] ?? 0;
+            smoothed[channel] = current + alpha * (target - current);
+
+            const level = Math.round(smoothed[channel] * 1000) / 1000;
+            const previous = sent[channel];
+            if (
+              previous === undefined ||
+              Math.abs(level - previous) > LEVEL_EPSILON
+            ) {
+              changed[channel] = level;
+            }
+          }
+          last = now;
+
+          if (Object.keys(changed).length > 0) {
+            await ctx.setLevels(changed);
+            Object.assign(sent, changed);
+          }
+          await ctx.sleep(options.resolution);
+        }
+
+        // Stop both actuators
+        await ctx.setLevels({ vibration: 0, vacuum: 0 });
+        return `Input mode ended - ${server.url}, messages: ${server.messages}, device: ${ctx.version}`;
+      } finally {
+        await server.close();
+        if (this.current?.server === server) this.current = undefined;
+      }
+    };
+  }
+}
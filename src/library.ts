@@ -0,0 +1,167 @@
+import { EventEmitter } from "node:events";
+import { mkdir, readFile, readdir, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { z } from "zod";
+import { builtinPatterns } from "./presets.js";
+import { type CategorizedError, InvalidInputError } from "./errors.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("PatternLibrary");
+
+export const patternKindSchema = z
+  .enum(["piston", "vacuum", "combo", "timeline"])
+  .describe(
+    "Which program the parameters belong to: piston, vacuum or combo (the parameters of that tool) or timeline (a custom keyframe program)",
+  );
+
+export const patternNameSchema = z
+  .string()
+  .regex(
+    /^[a-z0-9][a-z0-9-]{0,63}$/,
+    "Pattern names use lowercase letters, digits and dashes (max 64 characters)",
+  )
+  .describe("Name of the pattern, e.g. slow-build");
+
+export type PatternKind = z.infer<typeof patternKindSchema>;
+
+const savedPatternSchema = z.object({
+  name: patternNameSchema,
+  description: z.string().optional(),
+  kind: patternKindSchema,
+  params: z.record(z.unknown()),
+  savedAt: z.string().optional(),
+});
+
+export type SavedPattern = z.infer<typeof savedPatternSchema> & {
+  builtin?: boolean;
+};
+
+export class PatternNotFoundError extends Error implements CategorizedError {
+  readonly category = "not-found";
+
+  constructor(name: string) {
+    super(`No saved pattern named "${name}"`);
+    this.name = "PatternNotFoundError";
+  }
+}
+
+/**
+ * Named patterns: the built-in presets plus whatever the user saved, one JSON
+ * file per pattern under `<dataDir>/patterns`. Built-in names are reserved so
+ * a preset always means the same thing. Emits "change" when a pattern is
+ * saved or deleted.
+ */
+export class PatternLibrary extends EventEmitter {
+  private readonly dir: string;
+
+  constructor(dataDir: string) {
+    super();
+    // One listener per connected client
+    this.setMaxListeners(0);
+    this.dir = join(dataDir, "patterns");
+  }
+
+  private file(name: string): string {
+    return join(this.dir, `${name}.json`);
+  }
+
+  private static builtin(name: string): SavedPattern | undefined {
+    return builtinPatterns.find((pattern) => pattern.name === name);
+  }
+
+  private async readSaved(name: string): Promise<SavedPattern> {
+    let raw: string;
+    try {
+      raw = await readFile(this.file(name), "utf8");
+    } catch {
+      throw new PatternNotFoundError(name);
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(raw);
+    } catch {
+      throw new InvalidInputError(`Saved pattern "${name}" is not valid JSON`);
+    }
+
+    const result = savedPatternSchema.safeParse(json);
+    if (!result.success) {
+      throw new InvalidInputError(
+        `Saved pattern "${name}" is invalid: ${result.error}`,
+      );
+    }
+    return result.data;
+  }
+
+  async list(): Promise<SavedPattern[]> {
+    let files: string[];
+    try {
+      files = (await readdir(this.dir)).filter((file) =>
+        file.endsWith(".json"),
+      );
+    } catch {
+      // Nothing saved yet
+      files = [];
+    }
+
+    const saved: SavedPattern[] = [];
+    for (const file of files) {
+      try {
+        saved.push(await this.readSaved(file.slice(0, -".json".length)));
+      } catch (e) {
+        log.warning("Skipping unreadable pattern file", { file, error: e });
+      }
+    }
+    saved.sort((a, b) => a.name.localeCompare(b.name));
+    return [...builtinPatterns, ...saved];
+  }
+
+  async get(name: string): Promise<SavedPattern> {
+    const builtin = PatternLibrary.builtin(name);
+    if (builtin) return builtin;
+
+    if (!patternNameSchema.safeParse(name).success) {
+      throw new PatternNotFoundError(name);
+    }
+    return this.readSaved(name);
+  }
+
+  async save(
+    pattern: Omit<SavedPattern, "builtin" | "savedAt">,
+  ): Promise<SavedPattern> {
+    if (PatternLibrary.builtin(pattern.name)) {
+      throw new InvalidInputError(
+        `"${pattern.name}" is a built-in preset, pick another name`,
+      );
+    }
+
+    const saved = savedPatternSchema.parse({
+      ...pattern,
+      savedAt: new Date().toISOString(),
+    });
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.file(saved.name), JSON.stringify(saved, null, 2));
+    log.info("Saved pattern", { name: saved.name, kind: saved.kind });
+    this.emit("change");
+    return saved;
+  }
+
+  async delete(name: string): Promise<void> {
+    if (PatternLibrary.builtin(name)) {
+      throw new InvalidInputError(
+        `"${name}" is a built-in preset and cannot be deleted`,
+      );
+    }
+    if (!patternNameSchema.safeParse(name).success) {
+      throw new PatternNotFoundError(name);
+    }
+
+    try {
+      await unlink(this.file(name));
+    } catch {
+      throw new PatternNotFoundError(name);
+    }
+    log.info("Deleted pattern", { name });
+    this.emit("change");
+  }
+}
@@ -0,0 +1,225 @@
+import {
+  appendFileSync,
+  mkdirSync,
+  renameSync,
+  rmSync,
+  statSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import { type LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+import { type Config } from "./config.js";
+
+// MCP's (syslog) severities, least severe first
+const SEVERITY: LoggingLevel[] = [
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+];
+
+// The levels the server itself logs at
+export type LogLevel = "debug" | "info" | "warning" | "error";
+
+export interface LogEntry {
+  // ISO timestamp
+  time: string;
+  level: LogLevel;
+  // Part of the server that logged it, e.g. "Sessions"
+  component: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+// Somewhere entries are written to, with the least severe level it takes
+export interface LogSink {
+  level: LoggingLevel;
+  write(entry: LogEntry): void;
+}
+
+export type LoggingConfig = Pick<
+  Config,
+  "logLevel" | "logFormat" | "logFile" | "logFileMaxSize" | "logFiles"
+>;
+
+export function isAtLeast(level: LoggingLevel, min: LoggingLevel): boolean {
+  return SEVERITY.indexOf(level) >= SEVERITY.indexOf(min);
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === "string" && /^[^\s"=]+$/.test(value)) return value;
+  return JSON.stringify(value) ?? String(value);
+}
+
+// One line for people: time, level, [component], message, then key=value
+export function formatPretty(entry: LogEntry): string {
+  const fields = Object.entries(entry.data ?? {})
+    .map(([key, value]) => ` ${key}=${formatValue(value)}`)
+    .join("");
+  return `${entry.time} ${entry.level.padEnd(7)} [${entry.component}] ${entry.message}${fields}`;
+}
+
+// One JSON object per line for log processors
+export function formatJson(entry: LogEntry): string {
+  return JSON.stringify({
+    time: entry.time,
+    level: entry.level,
+    component: entry.component,
+    message: entry.message,
+    ...entry.data,
+  });
+}
+
+/**
+ * Appends lines to a file; once it would grow past `maxSize` bytes it's
+ * renamed to `<path>.1` (older ones shift to .2, .3…) and a new file is
+ * started, keeping at most `files` old ones.
+ */
+export class RotatingFile {
+  private size: number;
+
+  constructor(
+    private readonly path: string,
+    private readonly maxSize: number,
+    private readonly files: number,
+  ) {
+    mkdirSync(dirname(path), { recursive: true });
+    try {
+      this.size = statSync(path).size;
+    } catch {
+      this.size = 0;
+    }
+  }
+
+  write(line: string) {
+    const bytes = Buffer.byteLength(line) + 1;
+    if (this.size > 0 && this.size + bytes > this.maxSize) this.rotate();
+    appendFileSync(this.path, `${line}\n`);
+    this.size += bytes;
+  }
+
+  private rotate() {
+    rmSync(`${this.path}.${this.files}`, { force: true });
+    for (let i = this.files - 1; i >= 1; i--) {
+      try {
+        renameSync(`${this.path}.${i}`, `${this.path}.${i + 1}`);
+      } catch {
+        // Not that many old files yet
+      }
+    }
+    renameSync(this.path, `${this.path}.1`);
+    this.size = 0;
+  }
+}
+
+const sinks = new Set<LogSink>();
+
+// Until configured, log info and up to stderr like before
+let stderrSink: LogSink = {
+  level: "info",
+  write: (entry) => process.stderr.write(`${formatPretty(entry)}\n`),
+};
+let fileSink: LogSink | undefined;
+sinks.add(stderrSink);
+
+// Adds a sink; returns a function that removes it again
+export function addLogSink(sink: LogSink): () => void {
+  sinks.add(sink);
+  return () => sinks.delete(sink);
+}
+
+/**
+ * Applies the logging settings: level and format of stderr output, and the
+ * optional rotating log file, which uses the same level and format.
+ */
+export function configureLogging(config: LoggingConfig): void {
+  const format = config.logFormat === "json" ? formatJson : formatPretty;
+
+  sinks.delete(stderrSink);
+  stderrSink = {
+    level: config.logLevel,
+    write: (entry) => process.stderr.write(`${format(entry)}\n`),
+  };
+  sinks.add(stderrSink);
+
+  if (fileSink) sinks.delete(fileSink);
+  fileSink = undefined;
+  if (config.logFile) {
+    const file = new RotatingFile(
+      config.logFile,
+      config.logFileMaxSize,
+      config.logFiles,
+    );
+    fileSink = {
+      level: config.logLevel,
+      write: (entry) => file.write(format(entry)),
+    };
+    sinks.add(fileSink);
+  }
+}
+
+/**
+ * Logs for one component. `data` holds the details as fields rather than
+ * text, so JSON output and MCP clients get them structured.
+ */
+export class Logger {
+  constructor(readonly component: string) {}
+
+  debug(message: string, data?: Record<string, unknown>) {
+    this.log("debug", message, data);
+  }
+
+  info(message: string, data?: Record<string, unknown>) {
+    this.log("info", message, data);
+  }
+
+  warning(message: string, data?: Record<string, unknown>) {
+    this.log("warning", message, data);
+  }
+
+  error(message: string, data?: Record<string, unknown>) {
+    this.log("error", message, data);
+  }
+
+  private log(
+    level: LogLevel,
+    message: string,
+    data: Record<string, unknown> | undefined,
+  ) {
+    const targets = [...sinks].filter((sink) => isAtLeast(level, sink.level));
+    if (targets.length === 0) return;
+
+    const entry: LogEntry = {
+      time: new Date().toISOString(),
+      level,
+      component: this.component,
+      message,
+    };
+    if (data) {
+      // Errors don't survive JSON.stringify; keep their message
+      entry.data = Object.fromEntries(
+        Object.entries(data)
+          .filter(([, value]) => value !== undefined)
+          .map(([key, value]) => [
+            key,
+            value instanceof Error ? `${value}` : value,
+          ]),
+      );
+    }
+
+    for (const sink of targets) {
+      try {
+        sink.write(entry);
+      } catch {
+        // A broken sink must not take the caller down, nor log about itself
+      }
+    }
+  }
+}
+
+export function createLogger(component: string): Logger {
+  return new Logger(component);
+}
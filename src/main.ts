@@ -1,146 +1,140 @@
 #!/usr/bin/env node
 
-import {
-  ButtplugClient,
-  ButtplugNodeWebsocketClientConnector,
-  ButtplugClientDevice,
-} from "buttplug";
-
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { createPistonTools } from "./tools/piston.js";
 import { createVacuumTools } from "./tools/vacuum.js";
 import { createComboTools } from "./tools/combo.js";
 import { createExtendedOTools } from "./tools/extendedO.js";
-
-// Sam Neo device version enum
-export enum SamNeoVersion {
-  ORIGINAL = "original",
-  NEO2_SERIES = "neo2_series", // Covers both Neo2 and Neo2 Pro (same capabilities)
-}
-
-// Detect Sam Neo device version based on capabilities
-function detectSamNeoVersion(device: ButtplugClientDevice): SamNeoVersion {
-  const scalarCmds = device.messageAttributes.ScalarCmd;
-
-  if (!scalarCmds || !Array.isArray(scalarCmds)) {
-    console.error(`⚠️ No ScalarCmd found, defaulting to original Sam Neo`);
-    return SamNeoVersion.ORIGINAL;
-  }
-
-  // Count ActuatorTypes
-  const actuatorTypes = scalarCmds.map((cmd) => cmd.ActuatorType);
-  const hasConstrict = actuatorTypes.includes("Constrict" as any);
-  const vibrateCount = actuatorTypes.filter(
-    (type) => type === "Vibrate",
-  ).length;
-
-  console.error(`🔍 Device ActuatorTypes: ${JSON.stringify(actuatorTypes)}`);
-  console.error(
-    `🔍 Vibrate count: ${vibrateCount}, Has Constrict: ${hasConstrict}`,
-  );
-
-  if (hasConstrict && vibrateCount === 1) {
-    console.error(
-      `✅ Detected: Sam Neo 2 Series (Vibrate + Constrict) - covers Neo2 and Neo2 Pro`,
-    );
-    return SamNeoVersion.NEO2_SERIES;
-  } else if (vibrateCount >= 2) {
-    console.error(`✅ Detected: Original Sam Neo (Multiple Vibrators)`);
-    return SamNeoVersion.ORIGINAL;
-  } else {
-    console.error(`⚠️ Unknown configuration, defaulting to original Sam Neo`);
-    return SamNeoVersion.ORIGINAL;
-  }
-}
-
-export const server = new McpServer({
-  name: "Svakom Samneo",
-  version: "1.0.0",
-});
-
-const connector = new ButtplugNodeWebsocketClientConnector(
-  "ws://localhost:12345",
-);
-
-function isSamNeoDevice(deviceName: string): boolean {
-  const normalizedName = deviceName.toLowerCase();
-  console.error(`🔍 checking device: "${deviceName}" -> "${normalizedName}"`);
-
-  const patterns = ["svakom sam neo", "sam neo", "samneo"];
-
-  const matches = patterns.some((pattern) => normalizedName.includes(pattern));
-  console.error(`✨ pattern match result: ${matches}`);
-
-  return matches;
-}
+import { createSessionTools } from "./tools/sessions.js";
+import { createStopTools } from "./tools/stop.js";
+import { createDeviceTools } from "./tools/devices.js";
+import { createTimelineTools } from "./tools/timeline.js";
+import { createFunscriptTools } from "./tools/funscript.js";
+import { createAudioTools } from "./tools/audio.js";
+import { createSequenceTools } from "./tools/sequence.js";
+import { createLibraryTools } from "./tools/library.js";
+import { createRecordingTools } from "./tools/recordings.js";
+import { createInputTools } from "./tools/input.js";
+import { createStateResources } from "./tools/state.js";
+import { createSimulatorTools } from "./tools/simulator.js";
+import { SessionManager } from "./sessions.js";
+import { ConnectionManager } from "./connection.js";
+import { type SamNeoDriver } from "./driver.js";
+import { loadConfig } from "./config.js";
+import { PatternLibrary } from "./library.js";
+import { SessionRecorder } from "./recorder.js";
+import { InputManager } from "./input.js";
+import { DeviceStateTracker } from "./state.js";
+import { SafetyLimiter } from "./safety.js";
+import { CommandTrace, createSimulatedDevices } from "./simulator.js";
+import { HttpTransportServer } from "./http.js";
+import { configureLogging, createLogger } from "./logger.js";
+import { createLoggingNotifications } from "./tools/logging.js";
+
+const log = createLogger("Server");
 
 async function main() {
-  const client = new ButtplugClient("mcp-svakom-samneo");
-  await client.connect(connector);
+  const config = loadConfig();
+  configureLogging(config);
+  log.info("Configuration", {
+    serverUrl: config.serverUrl,
+    clientName: config.clientName,
+    scanTimeout: config.scanTimeout,
+    devicePatterns: config.devicePatterns,
+    preferredDevice: config.preferredDevice,
+    dataDir: config.dataDir,
+    recordSessions: config.recordSessions,
+    stdio: config.stdio,
+    http:
+      config.httpPort !== undefined
+        ? `${config.httpHost}:${config.httpPort}`
+        : "off",
+    logFile: config.logFile,
+  });
+  log.info("Safety limits", {
+    maxVibration: config.maxVibration,
+    maxVacuum: config.maxVacuum,
+    maxRunTime: config.maxRunTime ?? "none",
+    hourlyBudget: config.hourlyBudget ?? "none",
+    sessionCooldown: config.sessionCooldown,
+  });
 
-  console.error("🔎 scanning…");
-  await client.startScanning();
+  const limiter = new SafetyLimiter(config);
+  const connection = new ConnectionManager(config, limiter);
+  // Recordings can always be listed and replayed; new ones are only written
+  // when recordSessions is on
+  const recorder = new SessionRecorder(config.dataDir);
+  const sessions = new SessionManager(
+    connection,
+    limiter,
+    config.recordSessions ? recorder : undefined,
+  );
+  const library = new PatternLibrary(config.dataDir);
+  const tracker = new DeviceStateTracker(connection, sessions);
+  const input = new InputManager(sessions, config);
 
-  // Log existing devices
-  const existingDevices = client.devices;
-  console.error(`📋 existing devices: ${existingDevices.length}`);
-  existingDevices.forEach((device) => {
-    console.error(`  - ${device.name}`);
+  // A pattern can't continue on a device handle that has gone away
+  connection.on("devicelost", (driver: SamNeoDriver) => {
+    void sessions.stopAll(driver.device.index);
   });
 
-  // Check if Sam Neo device already exists
-  const existingSamNeo = existingDevices.find((device) =>
-    isSamNeoDevice(device.name),
-  );
+  const trace = config.simulate ? new CommandTrace() : undefined;
 
-  let device: ButtplugClientDevice;
+  // One McpServer per connected client (stdio, and each HTTP session), all
+  // driving the same devices and sessions. Remote clients don't get the
+  // tools that read files on this machine.
+  const createServer = ({ remote = false } = {}) => {
+    const server = new McpServer({
+      name: "Svakom Samneo",
+      version: "1.0.0",
+    });
 
-  if (existingSamNeo) {
-    console.error(`🎯 Found existing Sam Neo device: ${existingSamNeo.name}`);
-    device = existingSamNeo;
+    createLoggingNotifications(server, config.logLevel);
+
+    // Turns on the command trace the tools append to their results
+    if (trace) {
+      createSimulatorTools(server, trace);
+    }
+
+    createPistonTools(server, sessions);
+    createVacuumTools(server, sessions);
+    createComboTools(server, sessions);
+    createExtendedOTools(server, tracker, sessions);
+    createTimelineTools(server, sessions);
+    if (!remote) {
+      createFunscriptTools(server, sessions);
+      createAudioTools(server, sessions);
+    }
+    createSequenceTools(server, tracker, sessions);
+    createLibraryTools(server, library, sessions);
+    createRecordingTools(server, recorder, sessions);
+    createInputTools(server, input);
+    createSessionTools(server, sessions);
+    createStopTools(server, connection, sessions);
+    createDeviceTools(server, connection, sessions);
+    createStateResources(server, tracker);
+    return server;
+  };
+
+  // Serve MCP right away; the device is found in the background
+  if (config.stdio) {
+    await createServer().connect(new StdioServerTransport());
+  }
+  const { httpPort, httpToken } = config;
+  if (httpPort !== undefined && httpToken !== undefined) {
+    await new HttpTransportServer({ ...config, httpPort, httpToken }, () =>
+      createServer({ remote: true }),
+    ).listen();
+  }
+  if (trace) {
+    connection.simulate(createSimulatedDevices(config.simulateProfiles, trace));
   } else {
-    console.error(`⏳ Waiting for new Sam Neo device...`);
-    device = await new Promise((resolve, reject) => {
-      const timer = setTimeout(
-        () => reject("Sam Neo device is not found"),
-        15000,
-      );
-      client.on("deviceadded", (d) => {
-        console.error(`📱 device found: ${d.name}`);
-        if (isSamNeoDevice(d.name)) {
-          console.error(`🎯 Sam Neo device matched!`);
-          clearTimeout(timer);
-          resolve(d);
-        } else {
-          console.error(`❌ Device not a Sam Neo variant, continuing scan...`);
-        }
-      });
-    });
+    connection.start();
   }
-
-  if (!isSamNeoDevice(device.name))
-    throw new Error(`Device found (${device.name}) but not a Sam Neo variant`);
-
-  // Log device capabilities for debugging
-  console.error(`🔧 Device capabilities for ${device.name}:`);
-  console.error(`  Messages: ${JSON.stringify(device.messageAttributes)}`);
-
-  // Detect device version
-  const deviceVersion = detectSamNeoVersion(device);
-  console.error(`🎯 Device version: ${deviceVersion}`);
-
-  createPistonTools(server, device, deviceVersion);
-  createVacuumTools(server, device, deviceVersion);
-  createComboTools(server, device, deviceVersion);
-  createExtendedOTools(server, device, deviceVersion);
-  console.error(`✅ connected: ${device.name} (${deviceVersion})`);
-
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
 }
 
 main().catch((e) => {
-  console.error(e);
+  log.error("Failed to start", { error: e });
   process.exit(1);
 });
@@ -0,0 +1,85 @@
+import { type SavedPattern } from "./library.js";
+
+// Presets that ship with the server; parameters are validated when played
+export const builtinPatterns: SavedPattern[] = [
+  {
+    name: "gentle-warmup",
+    description: "A hundred seconds of slow piston motion at low vibration",
+    kind: "piston",
+    params: {
+      duration: 100000,
+      frequency: 0.4,
+      steps: 50,
+      vibrationPower: 0.3,
+    },
+    builtin: true,
+  },
+  {
+    name: "slow-build",
+    description: "Vibration and suction rise together over a minute and a half",
+    kind: "combo",
+    params: {
+      duration: 90000,
+      steps: 180,
+      vibrationPower: 0.7,
+      vacuumIntensity: 0.6,
+      syncMode: "synchronized",
+    },
+    builtin: true,
+  },
+  {
+    name: "tide",
+    description: "Vibration rises while suction ebbs away",
+    kind: "combo",
+    params: {
+      duration: 60000,
+      steps: 120,
+      vibrationPower: 0.8,
+      vacuumIntensity: 0.7,
+      syncMode: "alternating",
+    },
+    builtin: true,
+  },
+  {
+    name: "suction-pulse",
+    description: "Half-second suction pulses for half a minute",
+    kind: "vacuum",
+    params: {
+      intensity: 0.7,
+      duration: 30000,
+      pattern: "pulse",
+      pulseInterval: 500,
+    },
+    builtin: true,
+  },
+  {
+    name: "edging-waves",
+    description:
+      "Three waves that each climb higher, drop off and linger, then fade out",
+    kind: "timeline",
+    params: {
+      timeline: {
+        vibration: [
+          { at: 0, level: 0.2 },
+          { at: 15000, level: 0.6, easing: "ease-in" },
+          { at: 18000, level: 0.1, easing: "ease-out" },
+          { at: 33000, level: 0.75, easing: "ease-in" },
+          { at: 36000, level: 0.1, easing: "ease-out" },
+          { at: 51000, level: 0.9, easing: "ease-in" },
+          { at: 54000, level: 0.15, easing: "ease-out" },
+          { at: 60000, level: 0, easing: "linear" },
+        ],
+        vacuum: [
+          { at: 0, level: 0.1 },
+          { at: 15000, level: 0.5, easing: "sine" },
+          { at: 18000, level: 0, easing: "step" },
+          { at: 33000, level: 0.6, easing: "sine" },
+          { at: 36000, level: 0, easing: "step" },
+          { at: 51000, level: 0.7, easing: "sine" },
+          { at: 60000, level: 0, easing: "ease-out" },
+        ],
+      },
+    },
+    builtin: true,
+  },
+];
@@ -0,0 +1,211 @@
+import { mkdir, readFile, readdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { performance } from "node:perf_hooks";
+import { z } from "zod";
+import { SamNeoVersion } from "./device.js";
+import { type ActuatorLevels, type SamNeoDriver } from "./driver.js";
+import { type Schedule, type ScheduledStep } from "./scheduler.js";
+import { type Session, type SessionStatus } from "./sessions.js";
+import { type CategorizedError, InvalidInputError } from "./errors.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Recorder");
+
+export const RECORDING_FORMAT = "samneo-recording";
+
+const CHANNELS = ["vibration", "vacuum"] as const;
+
+export const recordingNameSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9][A-Za-z0-9-]{0,127}$/, "Not a recording name")
+  .describe(
+    "Name of the recording, as listed by Svakom-Sam-Neo-Recordings (the file name without .json)",
+  );
+
+// One level sent to one channel, `at` ms after the session started
+const recordedCommandSchema = z.object({
+  at: z.number().min(0),
+  channel: z.enum(CHANNELS),
+  level: z.number().min(0).max(1),
+});
+
+export type RecordedCommand = z.infer<typeof recordedCommandSchema>;
+
+const recordingSchema = z.object({
+  format: z.literal(RECORDING_FORMAT),
+  formatVersion: z.literal(1),
+  recordedAt: z.string(),
+  session: z.string(),
+  tool: z.string(),
+  params: z.record(z.unknown()),
+  device: z.object({
+    name: z.string(),
+    version: z.nativeEnum(SamNeoVersion),
+  }),
+  status: z.string(),
+  duration: z.number().min(0),
+  commands: z.array(recordedCommandSchema),
+});
+
+export type Recording = z.infer<typeof recordingSchema>;
+
+export const recordingSummarySchema = recordingSchema
+  .omit({ commands: true, params: true })
+  .extend({ name: z.string(), commandCount: z.number().int() });
+
+export type RecordingSummary = z.infer<typeof recordingSummarySchema>;
+
+export class RecordingNotFoundError extends Error implements CategorizedError {
+  readonly category = "not-found";
+
+  constructor(name: string) {
+    super(`No recording named "${name}"`);
+    this.name = "RecordingNotFoundError";
+  }
+}
+
+// e.g. 2026-05-01T20-15-02-114Z-vacuum-2d045b27
+function recordingName(session: Session): string {
+  const time = new Date(session.startedAt).toISOString().replace(/[:.]/g, "-");
+  const tool = session.tool.replace(/^Svakom-Sam-Neo-/, "").toLowerCase();
+  return `${time}-${tool}-${session.id.slice(0, 8)}`;
+}
+
+/**
+ * Plays a recording's commands at their recorded times, in time order
+ * whatever order a hand-edited file lists them in. Commands recorded at the
+ * same moment become one step.
+ */
+export function recordingSchedule(recording: Recording): Schedule {
+  const commands = [...recording.commands].sort((a, b) => a.at - b.at);
+  const steps: ScheduledStep[] = [];
+  for (const { at, channel, level } of commands) {
+    const last = steps[steps.length - 1];
+    if (last && last.at === at) {
+      last.levels[channel] = level;
+    } else {
+      steps.push({ at, levels: { [channel]: level } });
+    }
+  }
+  return { steps, duration: recording.duration };
+}
+
+/**
+ * Writes sessions to `<dataDir>/recordings`, one JSON file per session with
+ * every command sent to the device while it ran, and reads them back.
+ */
+export class SessionRecorder {
+  private readonly dir: string;
+
+  constructor(dataDir: string) {
+    this.dir = join(dataDir, "recordings");
+  }
+
+  private file(name: string): string {
+    return join(this.dir, `${name}.json`);
+  }
+
+  /**
+   * Starts capturing the commands sent to the session's device. The returned
+   * function stops capturing, writes the recording with the session's final
+   * status and resolves with its name.
+   */
+  start(
+    session: Session,
+    driver: SamNeoDriver,
+  ): (status: SessionStatus) => Promise<string> {
+    const startedAt = performance.now();
+    const commands: RecordedCommand[] = [];
+    const onCommand = (levels: ActuatorLevels) => {
+      const at = Math.round(performance.now() - startedAt);
+      for (const channel of CHANNELS) {
+        const level = levels[channel];
+        if (level !== undefined) commands.push({ at, channel, level });
+      }
+    };
+    driver.on("command", onCommand);
+
+    return async (status) => {
+      driver.off("command", onCommand);
+      const recording: Recording = {
+        format: RECORDING_FORMAT,
+        formatVersion: 1,
+        recordedAt: new Date(session.startedAt).toISOString(),
+        session: session.id,
+        tool: session.tool,
+        params: session.params,
+        device: { name: session.device, version: session.version },
+        status,
+        duration: Math.round(performance.now() - startedAt),
+        commands,
+      };
+
+      const name = recordingName(session);
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(this.file(name), JSON.stringify(recording, null, 2));
+      log.info("Recorded session", {
+        name,
+        session: session.id,
+        commands: commands.length,
+      });
+      return name;
+    };
+  }
+
+  // Newest first
+  async list(): Promise<RecordingSummary[]> {
+    let files: string[];
+    try {
+      files = (await readdir(this.dir)).filter((file) =>
+        file.endsWith(".json"),
+      );
+    } catch {
+      // Nothing recorded yet
+      files = [];
+    }
+
+    const summaries: RecordingSummary[] = [];
+    for (const file of files) {
+      const name = file.slice(0, -".json".length);
+      try {
+        const {
+          commands,
+          params: _params,
+          ...recording
+        } = await this.load(name);
+        summaries.push({ name, ...recording, commandCount: commands.length });
+      } catch (e) {
+        log.warning("Skipping unreadable recording", { file, error: e });
+      }
+    }
+    return summaries.sort((a, b) => b.recordedAt.localeCompare(a.recordedAt));
+  }
+
+  async load(name: string): Promise<Recording> {
+    if (!recordingNameSchema.safeParse(name).success) {
+      throw new RecordingNotFoundError(name);
+    }
+
+    let raw: string;
+    try {
+      raw = await readFile(this.file(name), "utf8");
+    } catch {
+      throw new RecordingNotFoundError(name);
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(raw);
+    } catch {
+      throw new InvalidInputError(`Recording "${name}" is not valid JSON`);
+    }
+
+    const result = recordingSchema.safeParse(json);
+    if (!result.success) {
+      throw new InvalidInputError(
+        `Recording "${name}" is invalid: ${result.error}`,
+      );
+    }
+    return result.data;
+  }
+}
@@ -0,0 +1,236 @@
+import { type ActuatorLevels } from "./driver.js";
+import { type Config } from "./config.js";
+import { type CategorizedError } from "./errors.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Thrown when a session may not start because of a time limit
+export class SafetyLimitError extends Error implements CategorizedError {
+  readonly category = "limit-exceeded";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "SafetyLimitError";
+  }
+}
+
+export type SafetyConfig = Pick<
+  Config,
+  | "maxVibration"
+  | "maxVacuum"
+  | "maxRunTime"
+  | "hourlyBudget"
+  | "sessionCooldown"
+  | "vibrationSlewRate"
+  | "vacuumSlewRate"
+>;
+
+// What a tool is about to play, so limits can be reported up front
+export interface SessionPlan {
+  vibration?: number;
+  vacuum?: number;
+  duration?: number;
+}
+
+interface DeviceActivity {
+  // Start of the current continuous run (sessions replacing each other)
+  runStartedAt?: number;
+  // Start of the session segment currently playing
+  segmentStartedAt?: number;
+  lastEndedAt?: number;
+  // Finished [start, end] segments within the last hour
+  history: [number, number][];
+}
+
+/**
+ * The user's hard limits. Intensity caps and slew rates are applied to every
+ * command by the driver; run time, the hourly budget and the cooldown are
+ * enforced by the session manager per device. Time limits are kept by device
+ * name, which stays the same when a device reconnects under a new index, so
+ * two identical devices share them.
+ */
+export class SafetyLimiter {
+  private readonly activity = new Map<string, DeviceActivity>();
+
+  constructor(private readonly config: SafetyConfig) {}
+
+  // Caps levels to the configured maximums; lists the channels that were cut
+  clip(levels: ActuatorLevels): {
+    levels: ActuatorLevels;
+    clipped: string[];
+  } {
+    const clipped: string[] = [];
+    const cap = (
+      channel: "vibration" | "vacuum",
+      level: number | undefined,
+      max: number,
+    ) => {
+      if (level === undefined || level <= max) return level;
+      clipped.push(
+        `${channel} capped at ${max} (requested ${Number(level.toFixed(3))})`,
+      );
+      return max;
+    };
+
+    return {
+      levels: {
+        vibration: cap("vibration", levels.vibration, this.config.maxVibration),
+        vacuum: cap("vacuum", levels.vacuum, this.config.maxVacuum),
+      },
+      clipped,
+    };
+  }
+
+  // Next level on the way from `from` to `to` after `elapsedMs`
+  slew(
+    channel: "vibration" | "vacuum",
+    from: number,
+    to: number,
+    elapsedMs: number,
+  ): number {
+    const rate =
+      channel === "vibration"
+        ? this.config.vibrationSlewRate
+        : this.config.vacuumSlewRate;
+    if (rate === undefined) return to;
+
+    // Tolerance keeps float drift from adding an extra tiny step at the end
+    const maxStep = (rate * elapsedMs) / 1000;
+    return Math.abs(to - from) <= maxStep + 1e-9
+      ? to
+      : from + Math.sign(to - from) * maxStep;
+  }
+
+  // Limit notes for a session about to start with the given plan
+  describePlan(device: string, plan: SessionPlan): string[] {
+    const notes = this.clip(plan).clipped;
+    const remaining = this.remaining(device);
+    if (
+      remaining &&
+      plan.duration !== undefined &&
+      plan.duration > remaining.ms
+    ) {
+      notes.push(`cut to ${remaining.ms}ms by ${remaining.limit}`);
+    }
+    return notes;
+  }
+
+  /**
+   * Throws SafetyLimitError if a session may not start now, without changing
+   * anything. A session replacing one that is still playing continues the
+   * same run and skips the cooldown; otherwise the cooldown and hourly budget
+   * must allow a new run.
+   */
+  check(device: string, continuing: boolean): void {
+    const now = Date.now();
+    const activity = this.get(device);
+    const newRun = !continuing || activity.runStartedAt === undefined;
+
+    if (newRun) {
+      const cooldownLeft =
+        activity.lastEndedAt === undefined
+          ? 0
+          : activity.lastEndedAt + this.config.sessionCooldown - now;
+      if (cooldownLeft > 0) {
+        throw new SafetyLimitError(
+          `Cooling down: next session allowed in ${Math.ceil(cooldownLeft / 1000)}s (sessionCooldown ${this.config.sessionCooldown}ms)`,
+        );
+      }
+    }
+
+    const remaining = this.left(
+      activity,
+      now,
+      newRun ? now : activity.runStartedAt,
+    );
+    if (remaining && remaining.ms <= 0) {
+      throw new SafetyLimitError(`${remaining.limit} used up, try again later`);
+    }
+  }
+
+  // Marks the start of a session, after the same checks as check()
+  begin(device: string, continuing: boolean): void {
+    this.check(device, continuing);
+    const now = Date.now();
+    const activity = this.get(device);
+    if (!continuing || activity.runStartedAt === undefined) {
+      activity.runStartedAt = now;
+    }
+    activity.segmentStartedAt = now;
+  }
+
+  // Marks the end of the session segment started by begin()
+  end(device: string): void {
+    const now = Date.now();
+    const activity = this.get(device);
+    if (activity.segmentStartedAt !== undefined) {
+      activity.history.push([activity.segmentStartedAt, now]);
+    }
+    activity.segmentStartedAt = undefined;
+    activity.lastEndedAt = now;
+  }
+
+  /**
+   * Time left before a limit stops the device, and which limit that is.
+   * Undefined when neither max run time nor an hourly budget is configured.
+   */
+  remaining(device: string): { ms: number; limit: string } | undefined {
+    const activity = this.get(device);
+    return this.left(
+      activity,
+      Date.now(),
+      activity.segmentStartedAt !== undefined
+        ? activity.runStartedAt
+        : undefined,
+    );
+  }
+
+  // `runStartedAt` is the start of the run in progress, if there is one
+  private left(
+    activity: DeviceActivity,
+    now: number,
+    runStartedAt: number | undefined,
+  ): { ms: number; limit: string } | undefined {
+    const candidates: { ms: number; limit: string }[] = [];
+
+    if (this.config.maxRunTime !== undefined) {
+      const running = runStartedAt !== undefined ? now - runStartedAt : 0;
+      candidates.push({
+        ms: this.config.maxRunTime - running,
+        limit: `max run time (${this.config.maxRunTime}ms)`,
+      });
+    }
+
+    if (this.config.hourlyBudget !== undefined) {
+      candidates.push({
+        ms: this.config.hourlyBudget - this.usedThisHour(activity, now),
+        limit: `hourly budget (${this.config.hourlyBudget}ms)`,
+      });
+    }
+
+    if (candidates.length === 0) return undefined;
+    return candidates.reduce((a, b) => (b.ms < a.ms ? b : a));
+  }
+
+  private usedThisHour(activity: DeviceActivity, now: number): number {
+    const since = now - HOUR_MS;
+    activity.history = activity.history.filter(([, end]) => end > since);
+    const segments = [...activity.history];
+    if (activity.segmentStartedAt !== undefined) {
+      segments.push([activity.segmentStartedAt, now]);
+    }
+    return segments.reduce(
+      (used, [start, end]) => used + end - Math.max(start, since),
+      0,
+    );
+  }
+
+  private get(device: string): DeviceActivity {
+    let activity = this.activity.get(device);
+    if (!activity) {
+      activity = { history: [] };
+      this.activity.set(device, activity);
+    }
+    return activity;
+  }
+}
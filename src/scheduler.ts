@@ -0,0 +1,315 @@
+import { performance } from "node:perf_hooks";
+import { type ActuatorLevels } from "./driver.js";
+import { type PatternContext } from "./sessions.js";
+
+// One level change, planned at `at` ms from the start of its schedule
+export interface ScheduledStep {
+  at: number;
+  levels: ActuatorLevels;
+  // Skip the slew-rate ramp (see PatternContext.setLevels)
+  instant?: boolean;
+}
+
+// Steps in time order, plus how long the schedule runs after its first step
+export interface Schedule {
+  steps: ScheduledStep[];
+  duration: number;
+}
+
+// Planned vs real timing of a played schedule, in whole milliseconds
+export interface ScheduleTiming {
+  planned: number;
+  actual: number;
+  steps: number;
+  sent: number;
+  // Steps folded into a later one because the scheduler fell behind
+  skipped: number;
+  // Worst delay between a step's deadline and sending it
+  maxLate: number;
+  // Time spent paused by interruptions
+  paused: number;
+}
+
+/**
+ * Combines schedules onto one clock, e.g. a vibration track and a vacuum
+ * track. Steps planned for the same moment are merged into one write.
+ */
+export function mergeSchedules(...schedules: Schedule[]): Schedule {
+  const steps: ScheduledStep[] = [];
+  const sorted = schedules
+    .flatMap((schedule) => schedule.steps)
+    .sort((a, b) => a.at - b.at);
+  for (const step of sorted) {
+    const last = steps[steps.length - 1];
+    if (last && last.at === step.at) {
+      steps[steps.length - 1] = {
+        at: step.at,
+        levels: { ...last.levels, ...step.levels },
+        instant: last.instant || step.instant,
+      };
+    } else {
+      steps.push(step);
+    }
+  }
+  return {
+    steps,
+    duration: Math.max(0, ...schedules.map((schedule) => schedule.duration)),
+  };
+}
+
+// Levels a schedule holds at `at`: the last level set on each channel
+export function levelsAt(schedule: Schedule, at: number): ActuatorLevels {
+  const levels: ActuatorLevels = {};
+  for (const step of schedule.steps) {
+    if (step.at > at) break;
+    Object.assign(levels, step.levels);
+  }
+  return levels;
+}
+
+// Interval between the blended levels of a crossfade
+const CROSSFADE_RESOLUTION_MS = 50;
+
+const CHANNELS = ["vibration", "vacuum"] as const;
+
+/**
+ * Levels of `steps` while time moves forward: `advance(at)` applies every
+ * step up to `at`. Walks the steps once however many times it's asked.
+ */
+function levelCursor(steps: ScheduledStep[], initial: ActuatorLevels = {}) {
+  const levels: ActuatorLevels = { ...initial };
+  let next = 0;
+  return (at: number): ActuatorLevels => {
+    while (next < steps.length && steps[next].at <= at) {
+      Object.assign(levels, steps[next].levels);
+      next++;
+    }
+    return levels;
+  };
+}
+
+/**
+ * Builds one schedule out of several played back to back on the same clock,
+ * appending in place so a long program takes time in proportion to its
+ * length rather than copying everything before it on every append.
+ */
+export class ScheduleBuilder {
+  private readonly steps: ScheduledStep[];
+  private duration: number;
+  // Levels held once everything appended so far has played
+  private readonly end: ActuatorLevels;
+
+  constructor(schedule: Schedule = { steps: [], duration: 0 }) {
+    this.steps = [...schedule.steps];
+    this.duration = schedule.duration;
+    this.end = levelsAt(schedule, Infinity);
+  }
+
+  get levels(): ActuatorLevels {
+    return { ...this.end };
+  }
+
+  get length(): number {
+    return this.steps.length;
+  }
+
+  get schedule(): Schedule {
+    return { steps: this.steps, duration: this.duration };
+  }
+
+  /**
+   * Plays `next` after what's there. With a crossfade, `next` starts that
+   * many ms before the end and the overlap blends from one to the other; a
+   * channel `next` doesn't drive yet keeps its level.
+   */
+  append(next: Schedule, crossfade = 0): void {
+    const end = this.duration;
+    const overlap = Math.min(crossfade, end, next.duration);
+    const offset = end - overlap;
+    this.duration = offset + next.duration;
+    Object.assign(this.end, levelsAt(next, Infinity));
+
+    if (overlap === 0) {
+      for (const step of next.steps) {
+        this.steps.push({ ...step, at: step.at + offset });
+      }
+      return;
+    }
+
+    // Steps inside the overlap are replaced by the blend
+    let cut = this.steps.length;
+    while (cut > 0 && this.steps[cut - 1].at >= offset) cut--;
+    const tail = this.steps.splice(cut);
+    const from = levelCursor(tail, this.levelsBefore(cut));
+    const to = levelCursor(next.steps);
+
+    for (let t = 0; t <= overlap; t += CROSSFADE_RESOLUTION_MS) {
+      const weight = t / overlap;
+      const a = from(offset + t);
+      const b = to(t);
+      const levels: ActuatorLevels = {};
+      for (const channel of CHANNELS) {
+        const target = b[channel];
+        if (target === undefined) continue;
+        const start = a[channel];
+        levels[channel] =
+          start === undefined ? target : start + (target - start) * weight;
+      }
+      if (Object.keys(levels).length > 0) {
+        this.push({ at: offset + t, levels });
+      }
+    }
+    // Land exactly on where `next` is once the crossfade is over
+    this.push({ at: end, levels: { ...to(overlap) } });
+
+    for (const step of next.steps) {
+      const at = step.at + offset;
+      if (at > end) this.push({ ...step, at });
+    }
+  }
+
+  // Levels set by the first `count` steps, found from the last one back
+  private levelsBefore(count: number): ActuatorLevels {
+    const levels: ActuatorLevels = {};
+    for (let i = count - 1; i >= 0; i--) {
+      for (const channel of CHANNELS) {
+        levels[channel] ??= this.steps[i].levels[channel];
+      }
+      if (CHANNELS.every((channel) => levels[channel] !== undefined)) break;
+    }
+    return levels;
+  }
+
+  // Adds a step, merged into the last one when both are due together
+  private push(step: ScheduledStep): void {
+    const last = this.steps[this.steps.length - 1];
+    if (last && last.at === step.at) {
+      this.steps[this.steps.length - 1] = {
+        at: step.at,
+        levels: { ...last.levels, ...step.levels },
+        instant: last.instant || step.instant,
+      };
+    } else {
+      this.steps.push(step);
+    }
+  }
+}
+
+// Plays `next` after `schedule` on the same clock (see ScheduleBuilder)
+export function appendSchedule(
+  schedule: Schedule,
+  next: Schedule,
+  crossfade = 0,
+): Schedule {
+  const builder = new ScheduleBuilder(schedule);
+  builder.append(next, crossfade);
+  return builder.schedule;
+}
+
+export function describeTiming(timing: ScheduleTiming): string {
+  return `planned ${timing.planned}ms, actual ${timing.actual}ms, ${timing.sent}/${timing.steps} steps sent, ${timing.skipped} skipped, max late ${timing.maxLate}ms${timing.paused > 0 ? `, paused ${timing.paused}ms` : ""}`;
+}
+
+// How often a paused scheduler checks whether it may go on
+const PAUSE_POLL_MS = 20;
+
+/**
+ * Plays a schedule against monotonic deadlines measured from the start, so
+ * the time spent sending a command is absorbed instead of adding up over the
+ * steps. When it falls behind far enough that the next step is already due,
+ * the late step is merged into that one rather than sent. `timing` is kept up
+ * to date while it plays. While paused, the clock stands still and no steps
+ * are sent.
+ */
+export class Scheduler {
+  readonly timing: ScheduleTiming;
+  private startedAt = 0;
+  private pausedAt: number | undefined;
+
+  constructor(
+    private readonly schedule: Schedule,
+    private readonly ctx: Pick<PatternContext, "setLevels" | "sleep" | "step">,
+  ) {
+    this.timing = {
+      planned: Math.round(schedule.duration),
+      actual: 0,
+      steps: schedule.steps.length,
+      sent: 0,
+      skipped: 0,
+      maxLate: 0,
+      paused: 0,
+    };
+  }
+
+  get paused(): boolean {
+    return this.pausedAt !== undefined;
+  }
+
+  pause(): void {
+    this.pausedAt ??= performance.now();
+  }
+
+  // Continues from where it paused, with every later deadline moved along
+  resume(): void {
+    if (this.pausedAt === undefined) return;
+    const pausedFor = performance.now() - this.pausedAt;
+    this.startedAt += pausedFor;
+    this.timing.paused += Math.round(pausedFor);
+    this.pausedAt = undefined;
+  }
+
+  async run(): Promise<ScheduleTiming> {
+    const { steps, duration } = this.schedule;
+    this.startedAt = performance.now();
+    const elapsed = () => performance.now() - this.startedAt;
+
+    let pending: ScheduledStep | undefined;
+    for (const [i, step] of steps.entries()) {
+      await this.waitUntil(step.at);
+
+      // Carry over levels of steps that were skipped on the way here
+      const merged: ScheduledStep = pending
+        ? {
+            at: step.at,
+            levels: { ...pending.levels, ...step.levels },
+            instant: pending.instant || step.instant,
+          }
+        : step;
+      pending = undefined;
+
+      const next = steps[i + 1];
+      if (next && elapsed() >= next.at) {
+        pending = merged;
+        this.timing.skipped++;
+        continue;
+      }
+
+      this.timing.maxLate = Math.max(
+        this.timing.maxLate,
+        Math.round(elapsed() - step.at),
+      );
+      this.ctx.step(i + 1, steps.length);
+      await this.ctx.setLevels(merged.levels, { instant: merged.instant });
+      this.timing.sent++;
+      this.timing.actual = Math.round(elapsed());
+    }
+
+    await this.waitUntil(duration);
+    this.timing.actual = Math.round(elapsed());
+    return this.timing;
+  }
+
+  private async waitUntil(at: number) {
+    // Timers may fire a little early; keep waiting until the deadline passes.
+    // A pause moves the deadline, so it's checked again after every wait
+    for (;;) {
+      if (this.paused) {
+        await this.ctx.sleep(PAUSE_POLL_MS);
+        continue;
+      }
+      const remaining = this.startedAt + at - performance.now();
+      if (remaining <= 0) return;
+      await this.ctx.sleep(Math.ceil(remaining));
+    }
+  }
+}
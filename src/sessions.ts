@@ -0,0 +1,639 @@
+import { randomUUID } from "node:crypto";
+import { EventEmitter } from "node:events";
+import { z } from "zod";
+import { type DeviceSelector, SamNeoVersion } from "./device.js";
+import { type ActuatorLevels, type SamNeoDriver } from "./driver.js";
+import { type ConnectionManager } from "./connection.js";
+import { type SafetyLimiter, type SessionPlan } from "./safety.js";
+import {
+  type Schedule,
+  type ScheduleTiming,
+  Scheduler,
+  describeTiming,
+} from "./scheduler.js";
+import { type SessionRecorder } from "./recorder.js";
+import {
+  type CategorizedError,
+  type ErrorCategory,
+  InvalidInputError,
+  errorCategory,
+  errorCategorySchema,
+} from "./errors.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Sessions");
+
+export const sessionStatusSchema = z.enum([
+  "running",
+  "completed",
+  "cancelled",
+  "stopped",
+  "failed",
+]);
+
+export type SessionStatus = z.infer<typeof sessionStatusSchema>;
+
+// Handed to a pattern so it can drive the device and report progress
+export interface PatternContext {
+  readonly version: SamNeoVersion;
+  readonly signal: AbortSignal;
+  // Command path currently used for suction, e.g. "Constrict@1"
+  readonly vacuumMethod: string;
+  // `instant` skips the slew-rate ramp, for changes that are the point
+  setLevels(
+    levels: ActuatorLevels,
+    options?: { instant?: boolean },
+  ): Promise<void>;
+  stop(): Promise<void>;
+  sleep(ms: number): Promise<void>;
+  // Plays timed steps on the session's clock and reports how it kept time
+  play(schedule: Schedule): Promise<ScheduleTiming>;
+  step(step: number, totalSteps?: number): void;
+}
+
+// A pattern resolves with a one-line summary of what it played
+export type Pattern = (ctx: PatternContext) => Promise<string>;
+
+/**
+ * Plays over a running session while its schedule is paused. `resumeLevels`
+ * are the levels the session had when it paused, which it picks up from again
+ * once the interruption resolves.
+ */
+export type Interruption = (
+  ctx: PatternContext,
+  resumeLevels: Required<ActuatorLevels>,
+) => Promise<void>;
+
+export interface Session {
+  id: string;
+  tool: string;
+  params: Record<string, unknown>;
+  device: string;
+  deviceIndex: number;
+  version: SamNeoVersion;
+  status: SessionStatus;
+  startedAt: number;
+  endedAt?: number;
+  // Duration the tool planned for, when it knows one up front
+  plannedDuration?: number;
+  step: number;
+  totalSteps?: number;
+  levels: Required<ActuatorLevels>;
+  // Commands sent to the device while the session ran
+  commands: number;
+  // Command path used for suction, e.g. "Constrict@1" or "DualVibrate"
+  commandPath: string;
+  // Safety limits that clipped or cut this session
+  limits: string[];
+  // Planned vs real timing of the schedule played last
+  timing?: ScheduleTiming;
+  // Interruption currently holding the session's schedule, e.g. "ExtendedO"
+  interruptedBy?: string;
+  // Name of the recording written once the session ended
+  recording?: string;
+  result?: string;
+  error?: string;
+  // Why the session didn't complete
+  errorCategory?: ErrorCategory;
+}
+
+// Thrown out of ctx.sleep when a session is cancelled
+export class SessionCancelledError extends Error implements CategorizedError {
+  readonly category = "cancelled";
+
+  constructor() {
+    super("Session cancelled");
+    this.name = "SessionCancelledError";
+  }
+}
+
+// Neither running nor among the finished sessions still kept
+export class SessionNotFoundError extends Error implements CategorizedError {
+  readonly category = "not-found";
+
+  constructor(id: string) {
+    super(`Session not found: ${id}`);
+    this.name = "SessionNotFoundError";
+  }
+}
+
+// Abort reasons reported as "stopped" rather than "cancelled"
+const EMERGENCY_STOP = "emergency-stop";
+const SAFETY_LIMIT = "safety-limit";
+
+// Finished sessions kept around so their final status can still be queried
+const MAX_FINISHED_SESSIONS = 20;
+
+function abortableSleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new SessionCancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new SessionCancelledError());
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs patterns in the background so tool calls return immediately. Only one
+ * session drives each device at a time; starting a new one on the same device
+ * cancels the previous session first, and starts on one device take turns. Emits "session" when a session starts
+ * and again when it ends. With a recorder, every session is written to a
+ * recording when it ends, and "session" is emitted once more with its name.
+ */
+export class SessionManager extends EventEmitter {
+  private readonly sessions = new Map<string, Session>();
+  private readonly controllers = new Map<string, AbortController>();
+  private readonly running = new Map<string, Promise<void>>();
+  private readonly contexts = new Map<string, PatternContext>();
+  // Schedule each session is playing right now, if any
+  private readonly schedulers = new Map<string, Scheduler>();
+  // Settles once the last start queued on a device index has
+  private readonly starting = new Map<number, Promise<unknown>>();
+
+  constructor(
+    private readonly connection: ConnectionManager,
+    private readonly limiter: SafetyLimiter,
+    private readonly recorder?: SessionRecorder,
+  ) {
+    super();
+  }
+
+  /**
+   * Throws DeviceUnavailableError / DeviceNotFoundError if there's no target,
+   * SafetyLimitError if a time limit doesn't allow another session yet. The
+   * plan (peak levels, expected duration) is only used to report limits.
+   */
+  async start(
+    tool: string,
+    params: Record<string, unknown>,
+    pattern: Pattern,
+    device?: DeviceSelector,
+    plan: SessionPlan = {},
+  ): Promise<Session> {
+    const driver = this.connection.requireDriver(device);
+    return this.serialized(driver.device.index, () =>
+      this.startNow(tool, params, pattern, driver, plan),
+    );
+  }
+
+  // Runs a start once the ones queued before it on the same device have
+  // settled, so each of them sees the session the one before started
+  private serialized<T>(index: number, task: () => Promise<T>): Promise<T> {
+    const result = (this.starting.get(index) ?? Promise.resolve()).then(task);
+    const settled = result.catch(() => {});
+    this.starting.set(index, settled);
+    void settled.then(() => {
+      if (this.starting.get(index) === settled) this.starting.delete(index);
+    });
+    return result;
+  }
+
+  private async startNow(
+    tool: string,
+    params: Record<string, unknown>,
+    pattern: Pattern,
+    driver: SamNeoDriver,
+    plan: SessionPlan,
+  ): Promise<Session> {
+    const index = driver.device.index;
+    const name = driver.device.name;
+
+    const replaced = this.list().filter(
+      (session) => session.deviceIndex === index,
+    );
+    // A session that may not start leaves the one playing alone
+    this.limiter.check(name, replaced.length > 0);
+    for (const session of replaced) {
+      await this.cancel(session.id);
+    }
+    this.limiter.begin(name, replaced.length > 0);
+
+    const session: Session = {
+      id: randomUUID(),
+      tool,
+      params,
+      device: driver.device.name,
+      deviceIndex: driver.device.index,
+      version: driver.version,
+      status: "running",
+      startedAt: Date.now(),
+      plannedDuration: plan.duration,
+      step: 0,
+      levels: driver.currentLevels,
+      commands: 0,
+      commandPath: driver.vacuumMethod,
+      limits: this.limiter.describePlan(name, plan),
+    };
+    const controller = new AbortController();
+    this.sessions.set(session.id, session);
+    this.controllers.set(session.id, controller);
+
+    const ctx: PatternContext = {
+      version: driver.version,
+      signal: controller.signal,
+      get vacuumMethod() {
+        return driver.vacuumMethod;
+      },
+      setLevels: async (levels, options) => {
+        if (controller.signal.aborted) throw new SessionCancelledError();
+        const clipped = await driver.setLevels(levels, options);
+        session.levels = driver.currentLevels;
+        for (const note of clipped) addLimit(session, note);
+      },
+      stop: async () => {
+        if (controller.signal.aborted) throw new SessionCancelledError();
+        await driver.stop();
+        session.levels = driver.currentLevels;
+      },
+      sleep: (ms) => abortableSleep(ms, controller.signal),
+      play: (schedule) => {
+        const scheduler = new Scheduler(schedule, ctx);
+        session.timing = scheduler.timing;
+        this.schedulers.set(session.id, scheduler);
+        return scheduler
+          .run()
+          .finally(() => this.schedulers.delete(session.id));
+      },
+      step: (step, totalSteps) => {
+        session.step = step;
+        if (totalSteps !== undefined) session.totalSteps = totalSteps;
+      },
+    };
+    this.contexts.set(session.id, ctx);
+
+    // Stop the session when it reaches max run time or the hourly budget
+    const remaining = this.limiter.remaining(name);
+    const limitTimer =
+      remaining &&
+      setTimeout(() => {
+        addLimit(session, `stopped by ${remaining.limit}`);
+        controller.abort(SAFETY_LIMIT);
+      }, remaining.ms);
+
+    log.info("Starting session", {
+      tool,
+      session: session.id,
+      device: session.device,
+      params,
+      limited: session.limits.length > 0 ? session.limits : undefined,
+    });
+    const onCommand = () => {
+      session.commands++;
+      session.commandPath = driver.vacuumMethod;
+    };
+    driver.on("command", onCommand);
+    const finishRecording = this.recorder?.start(session, driver);
+    this.running.set(
+      session.id,
+      this.run(
+        session,
+        driver,
+        controller,
+        pattern,
+        ctx,
+        finishRecording,
+      ).finally(() => {
+        driver.off("command", onCommand);
+        clearTimeout(limitTimer);
+        this.limiter.end(name);
+      }),
+    );
+    this.emit("session", session);
+    return session;
+  }
+
+  get(id: string): Session | undefined {
+    return this.sessions.get(id);
+  }
+
+  list(includeFinished = false): Session[] {
+    return [...this.sessions.values()].filter(
+      (session) => includeFinished || session.status === "running",
+    );
+  }
+
+  // Resolves once the session has stopped driving the device
+  async cancel(id: string): Promise<boolean> {
+    const controller = this.controllers.get(id);
+    const running = this.running.get(id);
+    if (!controller || !running) return false;
+
+    controller.abort();
+    await running;
+    return true;
+  }
+
+  /**
+   * Pauses the schedule the session on a device is playing, plays
+   * `interruption` in the background, then resumes the schedule where it
+   * paused. Returns the interrupted session, or undefined when nothing on the
+   * device is playing a schedule that could be paused. Throws
+   * InvalidInputError if the session is already interrupted.
+   */
+  interrupt(
+    name: string,
+    interruption: Interruption,
+    device?: DeviceSelector,
+  ): Session | undefined {
+    const index = this.connection.requireDriver(device).device.index;
+    const session = this.list().find(
+      (session) => session.deviceIndex === index,
+    );
+    const scheduler = session && this.schedulers.get(session.id);
+    const ctx = session && this.contexts.get(session.id);
+    if (!session || !scheduler || !ctx) return undefined;
+    if (scheduler.paused) {
+      throw new InvalidInputError(
+        `Session ${session.id} is already interrupted by ${session.interruptedBy}`,
+      );
+    }
+
+    scheduler.pause();
+    session.interruptedBy = name;
+    const resumeLevels = { ...session.levels };
+
+    // Steps of the interruption don't count as the session's progress, and
+    // its schedules don't replace the one that's paused
+    const interruptCtx: PatternContext = {
+      ...ctx,
+      step: () => {},
+      play: (schedule) => new Scheduler(schedule, interruptCtx).run(),
+    };
+
+    log.info("Interrupting session", {
+      interruption: name,
+      tool: session.tool,
+      session: session.id,
+    });
+    interruption(interruptCtx, resumeLevels)
+      .catch((e) => {
+        if (!ctx.signal.aborted) {
+          log.error("Interruption failed", {
+            interruption: name,
+            session: session.id,
+            error: e,
+          });
+        }
+      })
+      .finally(() => {
+        session.interruptedBy = undefined;
+        scheduler.resume();
+        if (!ctx.signal.aborted) {
+          log.info("Session resumed", {
+            interruption: name,
+            tool: session.tool,
+            session: session.id,
+          });
+        }
+      });
+    return session;
+  }
+
+  // Emergency stop: interrupt every running session (optionally only those on
+  // one device) and wait for them to exit
+  async stopAll(deviceIndex?: number): Promise<Session[]> {
+    const stopped = this.list().filter(
+      (session) =>
+        deviceIndex === undefined || session.deviceIndex === deviceIndex,
+    );
+    for (const session of stopped) {
+      this.controllers.get(session.id)?.abort(EMERGENCY_STOP);
+    }
+    await Promise.allSettled(
+      stopped.map((session) => this.running.get(session.id)),
+    );
+    return stopped;
+  }
+
+  private async run(
+    session: Session,
+    driver: SamNeoDriver,
+    controller: AbortController,
+    pattern: Pattern,
+    ctx: PatternContext,
+    finishRecording?: (status: SessionStatus) => Promise<string>,
+  ): Promise<void> {
+    // Only reported once the device is zeroed
+    let status: SessionStatus;
+    try {
+      session.result = await pattern(ctx);
+      status = "completed";
+    } catch (e) {
+      if (controller.signal.aborted) {
+        status =
+          controller.signal.reason === EMERGENCY_STOP ||
+          controller.signal.reason === SAFETY_LIMIT
+            ? "stopped"
+            : "cancelled";
+        session.errorCategory =
+          controller.signal.reason === SAFETY_LIMIT
+            ? "limit-exceeded"
+            : "cancelled";
+      } else {
+        status = "failed";
+        session.error = `${e}`;
+        session.errorCategory = errorCategory(e);
+      }
+    }
+
+    if (status !== "completed") {
+      // Don't leave the device running at whatever level the pattern reached
+      try {
+        await driver.setLevels({ vibration: 0, vacuum: 0 }, { instant: true });
+      } catch (e) {
+        log.error("Failed to zero outputs", {
+          session: session.id,
+          status,
+          error: e,
+        });
+      }
+    }
+
+    session.status = status;
+    session.levels = driver.currentLevels;
+    session.endedAt = Date.now();
+    this.controllers.delete(session.id);
+    this.running.delete(session.id);
+    this.contexts.delete(session.id);
+    this.pruneFinished();
+    this.emit("session", session);
+
+    log[session.status === "failed" ? "error" : "info"](
+      `Session ${session.status}`,
+      {
+        tool: session.tool,
+        session: session.id,
+        error: session.error,
+      },
+    );
+
+    // Written in the background, so stopping never waits on file I/O
+    if (finishRecording) void this.finishRecording(session, finishRecording);
+  }
+
+  private async finishRecording(
+    session: Session,
+    finish: (status: SessionStatus) => Promise<string>,
+  ): Promise<void> {
+    try {
+      session.recording = await finish(session.status);
+      this.emit("session", session);
+    } catch (e) {
+      log.error("Failed to write recording", {
+        session: session.id,
+        error: e,
+      });
+    }
+  }
+
+  private pruneFinished() {
+    const finished = [...this.sessions.values()].filter(
+      (session) => session.status !== "running",
+    );
+    for (const session of finished.slice(
+      0,
+      Math.max(0, finished.length - MAX_FINISHED_SESSIONS),
+    )) {
+      this.sessions.delete(session.id);
+    }
+  }
+}
+
+// Records a limit note once; repeats of the same cap are not listed again
+function addLimit(session: Session, note: string) {
+  const key = note.split(" (")[0];
+  if (!session.limits.some((limit) => limit.split(" (")[0] === key)) {
+    session.limits.push(note);
+  }
+}
+
+// Suffix for tool results, e.g. ", limited: vibration capped at 0.6 (...)"
+export function describeLimits(session: Session): string {
+  return session.limits.length > 0
+    ? `, limited: ${session.limits.join("; ")}`
+    : "";
+}
+
+// One-line human readable summary used by the session tools
+export function describeSession(session: Session): string {
+  const elapsed = (session.endedAt ?? Date.now()) - session.startedAt;
+  const step =
+    session.totalSteps !== undefined
+      ? `${session.step}/${session.totalSteps}`
+      : `${session.step}`;
+  const lines = [
+    `${session.id} - ${session.tool} on ${session.device}: ${session.status}, elapsed: ${elapsed}ms, step: ${step}, vibration: ${session.levels.vibration.toFixed(2)}, vacuum: ${session.levels.vacuum.toFixed(2)}`,
+  ];
+  if (session.limits.length > 0) {
+    lines.push(`  limited: ${session.limits.join("; ")}`);
+  }
+  if (session.interruptedBy) {
+    lines.push(`  interrupted by ${session.interruptedBy}`);
+  }
+  if (session.timing) {
+    lines.push(`  timing: ${describeTiming(session.timing)}`);
+  }
+  if (session.commands > 0) {
+    lines.push(
+      `  commands: ${session.commands}, vacuum path: ${session.commandPath}`,
+    );
+  }
+  if (session.recording) lines.push(`  recording: ${session.recording}`);
+  if (session.result) lines.push(`  result: ${session.result}`);
+  if (session.error) lines.push(`  error: ${session.error}`);
+  return lines.join("\n");
+}
+
+export const levelsSchema = z.object({
+  vibration: z.number(),
+  vacuum: z.number(),
+});
+
+// Structured counterpart of describeSession, for tool results
+export const sessionSummarySchema = z.object({
+  id: z.string(),
+  tool: z.string(),
+  device: z.string(),
+  deviceIndex: z.number(),
+  version: z.nativeEnum(SamNeoVersion),
+  status: sessionStatusSchema,
+  startedAt: z.string(),
+  endedAt: z.string().optional(),
+  plannedDuration: z
+    .number()
+    .optional()
+    .describe("Milliseconds the tool planned to play, when known up front"),
+  actualDuration: z
+    .number()
+    .describe("Milliseconds the session has run so far, or ran in total"),
+  commandsSent: z.number().int(),
+  commandPath: z
+    .string()
+    .describe(
+      'Command path used for suction, e.g. "Constrict@1", "Inflate@1", "Linear" or "DualVibrate" ("unresolved" until the first vacuum command)',
+    ),
+  levels: levelsSchema.describe(
+    "Last levels sent to the device: the final levels once the session ended",
+  ),
+  step: z.number(),
+  totalSteps: z.number().optional(),
+  limits: z.array(z.string()),
+  timing: z
+    .object({
+      planned: z.number(),
+      actual: z.number(),
+      steps: z.number(),
+      sent: z.number(),
+      skipped: z.number(),
+      maxLate: z.number(),
+      paused: z.number(),
+    })
+    .optional()
+    .describe("Planned vs real timing of the schedule played last"),
+  interruptedBy: z.string().optional(),
+  recording: z.string().optional(),
+  result: z.string().optional(),
+  error: z.string().optional(),
+  errorCategory: errorCategorySchema.optional(),
+});
+
+export type SessionSummary = z.infer<typeof sessionSummarySchema>;
+
+export function summarizeSession(session: Session): SessionSummary {
+  return {
+    id: session.id,
+    tool: session.tool,
+    device: session.device,
+    deviceIndex: session.deviceIndex,
+    version: session.version,
+    status: session.status,
+    startedAt: new Date(session.startedAt).toISOString(),
+    endedAt:
+      session.endedAt !== undefined
+        ? new Date(session.endedAt).toISOString()
+        : undefined,
+    plannedDuration: session.plannedDuration,
+    actualDuration: (session.endedAt ?? Date.now()) - session.startedAt,
+    commandsSent: session.commands,
+    commandPath: session.commandPath,
+    levels: { ...session.levels },
+    step: session.step,
+    totalSteps: session.totalSteps,
+    limits: [...session.limits],
+    timing: session.timing && { ...session.timing },
+    interruptedBy: session.interruptedBy,
+    recording: session.recording,
+    result: session.result,
+    error: session.error,
+    errorCategory: session.errorCategory,
+  };
+}
@@ -0,0 +1,148 @@
+import {
+  ActuatorType,
+  GenericDeviceMessageAttributes,
+  MessageAttributes,
+  type ScalarSubcommand,
+} from "buttplug";
+import { type SamNeoDevice, SamNeoVersion } from "./device.js";
+
+export interface TraceEntry {
+  // Milliseconds since the simulator started
+  at: number;
+  device: string;
+  command: "vibrate" | "scalar" | "linear" | "stop";
+  args: unknown;
+}
+
+// Longest trace appended to a single tool result
+const MAX_TRACE_LINES = 200;
+
+// Commands kept in memory; older ones are dropped
+const MAX_TRACE_ENTRIES = 10000;
+
+/**
+ * Timestamped log of every command sent to the simulated devices. Each
+ * client gets a `reader()` that hands out what was recorded since its
+ * previous call, so each tool result can show the commands issued since the
+ * one before.
+ */
+export class CommandTrace {
+  private readonly startedAt = Date.now();
+  private readonly entries: TraceEntry[] = [];
+  // Entries dropped from the front to stay within MAX_TRACE_ENTRIES
+  private dropped = 0;
+
+  record(device: string, command: TraceEntry["command"], args: unknown) {
+    this.entries.push({
+      at: Date.now() - this.startedAt,
+      device,
+      command,
+      args,
+    });
+    if (this.entries.length > MAX_TRACE_ENTRIES) {
+      this.entries.shift();
+      this.dropped++;
+    }
+  }
+
+  all(): TraceEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * A cursor of its own: every call returns the entries recorded since the
+   * previous call, starting from now.
+   */
+  reader(): () => TraceEntry[] {
+    let next = this.dropped + this.entries.length;
+    return () => {
+      const taken = this.entries.slice(Math.max(0, next - this.dropped));
+      next = this.dropped + this.entries.length;
+      return taken;
+    };
+  }
+
+  format(entries: TraceEntry[]): string {
+    if (entries.length === 0) return "Simulated command trace: no commands";
+
+    const omitted = Math.max(0, entries.length - MAX_TRACE_LINES);
+    const lines = entries
+      .slice(omitted)
+      .map(
+        (entry) =>
+          `+${entry.at}ms ${entry.device}: ${entry.command} ${JSON.stringify(entry.args)}`,
+      );
+    if (omitted > 0) lines.unshift(`… ${omitted} earlier commands omitted`);
+    return `Simulated command trace (${entries.length} commands):\n${lines.join("\n")}`;
+  }
+}
+
+// Stand-in for a ButtplugClientDevice that records instead of sending
+export class SimulatedDevice implements SamNeoDevice {
+  constructor(
+    readonly index: number,
+    readonly name: string,
+    readonly messageAttributes: MessageAttributes,
+    private readonly trace: CommandTrace,
+  ) {}
+
+  async vibrate(speed: number | number[]): Promise<void> {
+    this.trace.record(this.name, "vibrate", speed);
+  }
+
+  async scalar(scalar: ScalarSubcommand | ScalarSubcommand[]): Promise<void> {
+    this.trace.record(this.name, "scalar", scalar);
+  }
+
+  async linear(
+    values: number | [number, number][],
+    duration?: number,
+  ): Promise<void> {
+    this.trace.record(
+      this.name,
+      "linear",
+      duration === undefined ? values : [values, duration],
+    );
+  }
+
+  async stop(): Promise<void> {
+    this.trace.record(this.name, "stop", null);
+  }
+}
+
+// Device names and ScalarCmd layouts as reported by Intiface for each version
+const profiles: Record<
+  SamNeoVersion,
+  { name: string; actuators: ActuatorType[] }
+> = {
+  [SamNeoVersion.ORIGINAL]: {
+    name: "Svakom Sam Neo (simulated)",
+    actuators: [ActuatorType.Vibrate, ActuatorType.Vibrate],
+  },
+  [SamNeoVersion.NEO2_SERIES]: {
+    name: "Svakom Sam Neo 2 Pro (simulated)",
+    actuators: [ActuatorType.Vibrate, ActuatorType.Constrict],
+  },
+};
+
+export function createSimulatedDevices(
+  versions: SamNeoVersion[],
+  trace: CommandTrace,
+): SimulatedDevice[] {
+  return versions.map((version, index) => {
+    const profile = profiles[version];
+    const attributes = new MessageAttributes({
+      ScalarCmd: profile.actuators.map(
+        (actuatorType) =>
+          new GenericDeviceMessageAttributes({
+            FeatureDescriptor: "",
+            ActuatorType: actuatorType,
+            StepCount: 20,
+          }),
+      ),
+      StopDeviceCmd: {},
+    });
+    attributes.update();
+    return new SimulatedDevice(index, profile.name, attributes, trace);
+  });
+}
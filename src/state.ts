@@ -0,0 +1,137 @@
+import { EventEmitter } from "node:events";
+import { type DeviceSelector, SamNeoVersion } from "./device.js";
+import { type ActuatorLevels, type SamNeoDriver } from "./driver.js";
+import { type ConnectionManager, type ConnectionState } from "./connection.js";
+import { type Session, type SessionManager } from "./sessions.js";
+
+export interface DeviceState {
+  index: number;
+  name: string;
+  version: SamNeoVersion;
+  capabilities: {
+    // Resolved actuators, e.g. "Vibrate@0" / "Constrict@1"
+    vibration?: string;
+    suction?: string;
+    vacuumMethod: string;
+    messageAttributes: unknown;
+  };
+  // Last levels sent to the device
+  levels: Required<ActuatorLevels>;
+  activeTool?: string;
+  sessionId?: string;
+  updatedAt: string;
+}
+
+export interface StateSnapshot {
+  connection: ConnectionState;
+  devices: DeviceState[];
+}
+
+// Level writes can arrive every few ms; coalesce them into one "change"
+const CHANGE_THROTTLE_MS = 250;
+
+/**
+ * Central record of what every connected device is doing: the last levels
+ * sent, the tool driving it, its detected version and capabilities. Fed by
+ * the connection, the drivers and the session manager; emits a throttled
+ * "change" whenever any of it moves.
+ */
+export class DeviceStateTracker extends EventEmitter {
+  private readonly states = new Map<number, DeviceState>();
+  private changeTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly connection: ConnectionManager,
+    sessions: SessionManager,
+  ) {
+    super();
+    // One listener per connected client
+    this.setMaxListeners(0);
+    connection.on("deviceready", (driver: SamNeoDriver) =>
+      this.onDeviceReady(driver),
+    );
+    connection.on("devicelost", (driver: SamNeoDriver) =>
+      this.onDeviceLost(driver),
+    );
+    sessions.on("session", (session: Session) => this.onSession(session));
+  }
+
+  snapshot(): StateSnapshot {
+    return {
+      connection: this.connection.state,
+      devices: [...this.states.values()].sort((a, b) => a.index - b.index),
+    };
+  }
+
+  // Last levels sent to a device; throws like ConnectionManager.requireDriver
+  levels(selector?: DeviceSelector): Required<ActuatorLevels> {
+    const driver = this.connection.requireDriver(selector);
+    return { ...this.states.get(driver.device.index)!.levels };
+  }
+
+  // Detected version of a device; throws like ConnectionManager.requireDriver
+  version(selector?: DeviceSelector): SamNeoVersion {
+    return this.connection.requireDriver(selector).version;
+  }
+
+  private onDeviceReady(driver: SamNeoDriver) {
+    const actuator = (resolved: SamNeoDriver["vibration"]) =>
+      resolved && `${resolved.actuatorType}@${resolved.index}`;
+
+    const state: DeviceState = {
+      index: driver.device.index,
+      name: driver.device.name,
+      version: driver.version,
+      capabilities: {
+        vibration: actuator(driver.vibration),
+        suction: actuator(driver.suction),
+        vacuumMethod: driver.vacuumMethod,
+        messageAttributes: driver.device.messageAttributes,
+      },
+      levels: driver.currentLevels,
+      updatedAt: new Date().toISOString(),
+    };
+    this.states.set(state.index, state);
+
+    driver.on("levels", (levels: Required<ActuatorLevels>) => {
+      state.levels = levels;
+      // The suction path is only known after the first vacuum write
+      state.capabilities.vacuumMethod = driver.vacuumMethod;
+      this.touch(state);
+    });
+    this.scheduleChange();
+  }
+
+  private onDeviceLost(driver: SamNeoDriver) {
+    driver.removeAllListeners("levels");
+    this.states.delete(driver.device.index);
+    this.scheduleChange();
+  }
+
+  private onSession(session: Session) {
+    const state = this.states.get(session.deviceIndex);
+    if (!state) return;
+
+    if (session.status === "running") {
+      state.activeTool = session.tool;
+      state.sessionId = session.id;
+    } else if (state.sessionId === session.id) {
+      state.activeTool = undefined;
+      state.sessionId = undefined;
+    }
+    this.touch(state);
+  }
+
+  private touch(state: DeviceState) {
+    state.updatedAt = new Date().toISOString();
+    this.scheduleChange();
+  }
+
+  private scheduleChange() {
+    if (this.changeTimer) return;
+    this.changeTimer = setTimeout(() => {
+      this.changeTimer = undefined;
+      this.emit("change", this.snapshot());
+    }, CHANGE_THROTTLE_MS);
+  }
+}
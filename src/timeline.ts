@@ -0,0 +1,169 @@
+import { z } from "zod";
+import { type ActuatorLevels } from "./driver.js";
+import { type SessionPlan } from "./safety.js";
+import { type Schedule, type ScheduledStep } from "./scheduler.js";
+
+export const easingSchema = z
+  .enum(["linear", "ease-in", "ease-out", "ease-in-out", "step", "sine"])
+  .describe(
+    "Curve used to reach this keyframe from the previous one: linear, ease-in (slow start), ease-out (slow end), ease-in-out, step (hold, then jump at this keyframe) or sine",
+  );
+
+export const keyframeSchema = z.object({
+  at: z
+    .number()
+    .min(0)
+    .max(600000)
+    .describe("Time of the keyframe in milliseconds from the start"),
+  level: z.number().min(0).max(1).describe("Target level (0.0 to 1.0)"),
+  easing: easingSchema.default("linear"),
+});
+
+const channelSchema = z
+  .array(keyframeSchema)
+  .min(1)
+  .max(1000)
+  .optional()
+  .describe(
+    "Keyframes for this channel. Before the first keyframe the channel holds its level, after the last one it holds the last level until the timeline ends",
+  );
+
+export const timelineSchema = z
+  .object({
+    vibration: channelSchema,
+    vacuum: channelSchema,
+    resolution: z
+      .number()
+      .min(20)
+      .max(1000)
+      .default(100)
+      .describe(
+        "Milliseconds between commands sent to the device while playing",
+      ),
+  })
+  .refine((timeline) => timeline.vibration || timeline.vacuum, {
+    message: "A timeline needs keyframes for vibration, vacuum or both",
+  });
+
+// Skip resending a level the device already has
+const LEVEL_EPSILON = 0.001;
+
+export type Easing = z.infer<typeof easingSchema>;
+export type Keyframe = z.infer<typeof keyframeSchema>;
+export type Timeline = z.infer<typeof timelineSchema>;
+
+export const easings: Record<Easing, (t: number) => number> = {
+  linear: (t) => t,
+  "ease-in": (t) => t * t,
+  "ease-out": (t) => 1 - (1 - t) * (1 - t),
+  "ease-in-out": (t) => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2),
+  step: (t) => (t < 1 ? 0 : 1),
+  sine: (t) => (1 - Math.cos(Math.PI * t)) / 2,
+};
+
+function sortKeyframes(keyframes: Keyframe[]): Keyframe[] {
+  return [...keyframes].sort((a, b) => a.at - b.at);
+}
+
+// Level at time t, given the index of the first keyframe after t
+function interpolate(keyframes: Keyframe[], next: number, t: number): number {
+  if (next === keyframes.length) return keyframes[next - 1].level;
+  if (next === 0) return keyframes[0].level;
+
+  const from = keyframes[next - 1];
+  const to = keyframes[next];
+  const progress = (t - from.at) / (to.at - from.at);
+  return from.level + (to.level - from.level) * easings[to.easing](progress);
+}
+
+// Level of one channel at time t; keyframes must be sorted by `at`
+export function levelAt(keyframes: Keyframe[], t: number): number {
+  const next = keyframes.findIndex((keyframe) => keyframe.at > t);
+  return interpolate(keyframes, next === -1 ? keyframes.length : next, t);
+}
+
+/**
+ * Levels of one channel while time moves forward, like `levelAt` but walking
+ * the keyframes once however many samples are taken. Keyframes must be
+ * sorted by `at`.
+ */
+function levelCursor(keyframes: Keyframe[]) {
+  let next = 0;
+  return (t: number): number => {
+    while (next < keyframes.length && keyframes[next].at <= t) next++;
+    return interpolate(keyframes, next, t);
+  };
+}
+
+export function timelineDuration(timeline: Timeline): number {
+  return Math.max(
+    ...[timeline.vibration, timeline.vacuum].map((keyframes) =>
+      keyframes ? Math.max(...keyframes.map((keyframe) => keyframe.at)) : 0,
+    ),
+  );
+}
+
+// Peak level per channel and total duration, for limit reporting
+export function timelinePlan(timeline: Timeline): SessionPlan {
+  const peak = (keyframes?: Keyframe[]) =>
+    keyframes && Math.max(...keyframes.map((keyframe) => keyframe.level));
+  return {
+    vibration: peak(timeline.vibration),
+    vacuum: peak(timeline.vacuum),
+    duration: timelineDuration(timeline),
+  };
+}
+
+export interface TimelineSample {
+  at: number;
+  levels: ActuatorLevels;
+}
+
+/**
+ * Samples a timeline every `resolution` ms (plus its exact end) into the
+ * levels to send. Channels without keyframes are left out so they stay under
+ * the control of whatever else is driving them.
+ */
+export function sampleTimeline(timeline: Timeline): TimelineSample[] {
+  const vibration =
+    timeline.vibration && levelCursor(sortKeyframes(timeline.vibration));
+  const vacuum = timeline.vacuum && levelCursor(sortKeyframes(timeline.vacuum));
+  const duration = timelineDuration(timeline);
+
+  const times: number[] = [];
+  for (let at = 0; at < duration; at += timeline.resolution) times.push(at);
+  times.push(duration);
+
+  return times.map((at) => ({
+    at,
+    levels: {
+      ...(vibration && { vibration: vibration(at) }),
+      ...(vacuum && { vacuum: vacuum(at) }),
+    },
+  }));
+}
+
+// Schedule of the samples that change something, with only the channels
+// whose level changed
+export function scheduleSamples(samples: TimelineSample[]): Schedule {
+  const sent: ActuatorLevels = {};
+  const steps: ScheduledStep[] = [];
+  for (const sample of samples) {
+    const changed: ActuatorLevels = {};
+    for (const channel of ["vibration", "vacuum"] as const) {
+      const level = sample.levels[channel];
+      if (
+        level !== undefined &&
+        (sent[channel] === undefined ||
+          Math.abs(level - sent[channel]) > LEVEL_EPSILON)
+      ) {
+        changed[channel] = level;
+      }
+    }
+    if (Object.keys(changed).length > 0) {
+      steps.push({ at: sample.at, levels: changed });
+      Object.assign(sent, changed);
+    }
+  }
+  return { steps, duration: samples[samples.length - 1]?.at ?? 0 };
+}
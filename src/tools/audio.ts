@@ -0,0 +1,180 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { deviceParam } from "../device.js";
+import { InvalidInputError } from "../errors.js";
+import {
+  type SessionManager,
+  describeLimits,
+  sessionSummarySchema,
+  summarizeSession,
+} from "../sessions.js";
+import { scheduleSamples } from "../timeline.js";
+import {
+  analyzeAudio,
+  audioBandSchema,
+  audioPeaks,
+  audioSamples,
+  describeAudioPreview,
+  loadAudio,
+  rawAudioSchema,
+} from "../audio.js";
+import { errorResult, toolOutput, toolResult } from "./results.js";
+import { traced } from "./simulator.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("AudioTool");
+
+const audioOutput = toolOutput({
+  duration: z.number().describe("Milliseconds the audio drives the device"),
+  session: sessionSummarySchema.describe(
+    "The session playing the audio; not set for a preview",
+  ),
+});
+
+export function createAudioTools(server: McpServer, sessions: SessionManager) {
+  server.registerTool(
+    "Svakom-Sam-Neo-Audio",
+    {
+      description:
+        "Plays a local audio file (WAV, or raw PCM) on the Svakom Sam Neo: the file is analyzed up front and each channel follows the loudness of one frequency band, e.g. bass for vibration and mids for suction, in time with the audio. Returns a preview of the levels; with preview set it only returns the preview without playing. Works on both the original Sam Neo and the Sam Neo 2 series.",
+      inputSchema: {
+        path: z
+          .string()
+          .min(1)
+          .describe("Path to the .wav (or raw PCM) file on this machine"),
+        rawFormat: rawAudioSchema.optional(),
+        vibrationBand: audioBandSchema
+          .default("bass")
+          .describe(
+            "What drives vibration: envelope, bass, mids, treble or off",
+          ),
+        vacuumBand: audioBandSchema
+          .default("mids")
+          .describe("What drives vacuum: envelope, bass, mids, treble or off"),
+        sensitivity: z
+          .number()
+          .min(0.1)
+          .max(4)
+          .default(1)
+          .describe(
+            "How strongly the channels react (1 = the loudest parts of the track reach the ceiling, 2 = half as loud already does)",
+          ),
+        smoothing: z
+          .number()
+          .min(0)
+          .max(2000)
+          .default(150)
+          .describe(
+            "Milliseconds the levels take to follow the audio (0 = follow every beat exactly)",
+          ),
+        floor: z
+          .number()
+          .min(0)
+          .max(1)
+          .default(0)
+          .describe("Level while the band is silent (0.0 to 1.0)"),
+        ceiling: z
+          .number()
+          .min(0)
+          .max(1)
+          .default(1)
+          .describe("Level when the band is at its loudest (0.0 to 1.0)"),
+        resolution: z
+          .number()
+          .min(20)
+          .max(1000)
+          .default(50)
+          .describe("Milliseconds between commands sent to the device"),
+        preview: z
+          .boolean()
+          .default(false)
+          .describe("Only analyze the file and return the preview, don't play"),
+        device: deviceParam,
+      },
+      outputSchema: audioOutput,
+    },
+    traced(server, async (params) => {
+      const {
+        path,
+        rawFormat,
+        vibrationBand,
+        vacuumBand,
+        sensitivity,
+        smoothing,
+        floor,
+        ceiling,
+        resolution,
+        preview,
+      } = params;
+      try {
+        if (vibrationBand === "off" && vacuumBand === "off") {
+          throw new InvalidInputError(
+            "vibrationBand and vacuumBand are both off",
+          );
+        }
+        if (floor > ceiling) {
+          throw new InvalidInputError("floor must not be above ceiling");
+        }
+
+        const channels = { vibration: vibrationBand, vacuum: vacuumBand };
+        const audio = await loadAudio(path, rawFormat);
+        const features = analyzeAudio(audio, resolution);
+        const samples = audioSamples(features, channels, {
+          sensitivity,
+          smoothing,
+          floor,
+          ceiling,
+        });
+        const summary = describeAudioPreview(
+          audio,
+          features,
+          channels,
+          samples,
+        );
+        const duration = Math.round(features.duration);
+
+        if (preview) {
+          return toolResult(
+            `Audio preview - duration: ${duration}ms\n${summary}`,
+            { duration },
+          );
+        }
+
+        const session = await sessions.start(
+          "Svakom-Sam-Neo-Audio",
+          params,
+          async (ctx) => {
+            log.debug("Starting audio", {
+              path,
+              vibrationBand,
+              vacuumBand,
+              duration,
+              device: ctx.version,
+            });
+
+            await ctx.play(scheduleSamples(samples));
+
+            // Stop both actuators
+            await ctx.setLevels({ vibration: 0, vacuum: 0 });
+
+            log.debug("Audio completed", {
+              path,
+              duration,
+              device: ctx.version,
+            });
+            return `Audio completed - duration: ${duration}ms, vibration=${vibrationBand}, vacuum=${vacuumBand}, device: ${ctx.version}`;
+          },
+          params.device,
+          { ...audioPeaks(samples), duration },
+        );
+
+        return toolResult(
+          `Audio started - session: ${session.id}, duration: ${duration}ms, sensitivity: ${sensitivity}, smoothing: ${smoothing}ms, floor: ${floor}, ceiling: ${ceiling}, device: ${session.device} (${session.version})${describeLimits(session)}\n${summary}`,
+          { duration, session: summarizeSession(session) },
+        );
+      } catch (e) {
+        return errorResult(e);
+      }
+    }),
+  );
+}
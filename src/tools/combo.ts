@@ -1,333 +1,236 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { type ButtplugClientDevice, ActuatorType } from "buttplug";
-import { SamNeoVersion } from "../main.js";
-
-// Helper function for Sam Neo 2 Pro vacuum control in combo mode
-async function executeNeo2ComboVacuumControl(
-  device: ButtplugClientDevice,
-  intensity: number,
-): Promise<string> {
-  const approaches = [
-    // Approach 1: Try Constrict ActuatorType (most likely for vacuum/suction)
-    async () => {
-      await device.scalar([
-        {
-          Index: 1, // Constrict uses Index 1 based on device capabilities
-          Scalar: intensity,
-          ActuatorType: "Constrict" as any, // Try as string first
-        },
-      ]);
-      return "Constrict";
-    },
-
-    // Approach 2: Try LinearCmd for position-based control
-    async () => {
-      await device.linear([[intensity, 100]]);
-      return "Linear";
-    },
-
-    // Approach 3: Try different Index with Inflate
-    async () => {
-      await device.scalar([
-        {
-          Index: 1,
-          Scalar: intensity,
-          ActuatorType: ActuatorType.Inflate,
-        },
-      ]);
-      return "Inflate-Index1";
-    },
-
-    // Approach 4: Original Inflate approach (as fallback)
-    async () => {
-      await device.scalar([
-        {
-          Index: 0,
-          Scalar: intensity,
-          ActuatorType: ActuatorType.Inflate,
-        },
-      ]);
-      return "Inflate-Index0";
-    },
-  ];
-
-  for (const approach of approaches) {
-    try {
-      const result = await approach();
-      console.error(`[ComboTool] Vacuum success with approach: ${result}`);
-      return result;
-    } catch (error) {
-      console.error(`[ComboTool] Vacuum approach failed: ${error}`);
-      continue;
-    }
-  }
-
-  throw new Error("All Neo2 combo vacuum control approaches failed");
+import { SamNeoVersion, deviceParam } from "../device.js";
+import {
+  type Pattern,
+  type SessionManager,
+  describeLimits,
+  summarizeSession,
+} from "../sessions.js";
+import { type SessionPlan } from "../safety.js";
+import { type ActuatorLevels } from "../driver.js";
+import { type Schedule, mergeSchedules } from "../scheduler.js";
+import {
+  describeWaveforms,
+  phaseOffsetParam,
+  waveformSchedule,
+  waveformSchema,
+} from "../waveform.js";
+import { vacuumPatternSchedule } from "./vacuum.js";
+import { errorResult, sessionStartedOutput, toolResult } from "./results.js";
+import { traced } from "./simulator.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("ComboTool");
+
+export const comboParams = {
+  duration: z
+    .number()
+    .min(1000)
+    .max(100000)
+    .describe("Total duration in milliseconds for the combined stimulation"),
+  steps: z
+    .number()
+    .min(20)
+    .max(1000)
+    .default(20)
+    .describe("Number of steps for the piston motion pattern"),
+  vibrationPower: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0.5)
+    .describe("Base vibration intensity (0.0 to 1.0)"),
+  vacuumIntensity: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0.5)
+    .describe("Vacuum/suction intensity (0.0 to 1.0)"),
+  syncMode: z
+    .enum(["synchronized", "alternating", "independent"])
+    .default("synchronized")
+    .describe(
+      "How vibration and vacuum are coordinated: synchronized (together), alternating (opposite), independent (separate patterns)",
+    ),
+  vacuumPattern: z
+    .enum(["constant", "pulse", "wave"])
+    .default("constant")
+    .describe("Vacuum pattern when in independent mode"),
+  vibrationWaveform: waveformSchema
+    .optional()
+    .describe(
+      "Waveform for the vibration channel, replacing the stepping pattern of syncMode",
+    ),
+  vacuumWaveform: waveformSchema
+    .optional()
+    .describe(
+      "Waveform for the vacuum channel, replacing the pattern of syncMode / vacuumPattern",
+    ),
+  phaseOffset: phaseOffsetParam,
+};
+
+export type ComboParams = z.infer<z.ZodObject<typeof comboParams>>;
+
+export function comboPlan({
+  duration,
+  vibrationPower,
+  vacuumIntensity,
+  vibrationWaveform,
+  vacuumWaveform,
+}: ComboParams): SessionPlan {
+  return {
+    vibration: vibrationWaveform?.max ?? vibrationPower,
+    vacuum: vacuumWaveform?.max ?? vacuumIntensity,
+    duration,
+  };
 }
 
-// Helper function for Original Sam Neo combo control
-async function executeOriginalComboControl(
-  device: ButtplugClientDevice,
-  vibrationLevel: number,
-  vacuumLevel: number,
-): Promise<string> {
-  try {
-    // Original Sam Neo: vibrator 1 for vibration, vibrator 2 for vacuum
-    await device.vibrate([vibrationLevel, vacuumLevel]);
-    console.error(
-      `[ComboTool] Original combo control: vibration=${vibrationLevel}, vacuum=${vacuumLevel}`,
+export function comboSchedule(
+  {
+    duration,
+    steps,
+    vibrationPower,
+    vacuumIntensity,
+    syncMode,
+    vacuumPattern,
+    vibrationWaveform,
+    vacuumWaveform,
+    phaseOffset,
+  }: ComboParams,
+  version: SamNeoVersion,
+): Schedule {
+  const diff = 1 / steps;
+  const delay = duration / steps;
+
+  // One step per piston step, with the level derived from its intensity
+  const stepping = (
+    channel: keyof ActuatorLevels,
+    level: (intensity: number, i: number) => number,
+  ): Schedule => ({
+    steps: Array.from({ length: steps }, (_, i) => ({
+      at: delay * i,
+      levels: { [channel]: level(diff * i, i) },
+    })),
+    duration,
+  });
+
+  // Vibration steps up in every mode; vacuum depends on syncMode
+  let vibration = stepping(
+    "vibration",
+    (intensity) => intensity * vibrationPower,
+  );
+  let vacuum: Schedule;
+  if (syncMode === "synchronized") {
+    // Both vibration and vacuum follow the same stepping pattern
+    vacuum = stepping("vacuum", (intensity) => intensity * vacuumIntensity);
+  } else if (syncMode === "alternating") {
+    // Vibration and vacuum alternate - when one is high, the other is low
+    vacuum = stepping(
+      "vacuum",
+      (intensity) => (1 - intensity) * vacuumIntensity, // Opposite pattern
+    );
+  } else if (version === SamNeoVersion.ORIGINAL) {
+    // Original Sam Neo: Cannot truly run independent patterns simultaneously
+    // Fall back to synchronized mode with a warning
+    log.warning(
+      "Original Sam Neo doesn't support independent mode, using synchronized instead",
+    );
+    vacuum = stepping("vacuum", (_, i) =>
+      vacuumPattern === "wave"
+        ? Math.sin((i / steps) * Math.PI) * vacuumIntensity
+        : vacuumIntensity,
+    );
+  } else {
+    // Sam Neo 2 Series (Neo2/Neo2 Pro): Run vibration stepping and vacuum
+    // pattern independently
+    // Fixed pulse interval for combo mode
+    vacuum = vacuumPatternSchedule(
+      vacuumPattern,
+      vacuumIntensity,
+      duration,
+      500,
     );
-    return "OriginalCombo";
-  } catch (error) {
-    console.error(`[ComboTool] Original combo control failed: ${error}`);
-    throw new Error("Original Sam Neo combo control failed");
   }
-}
 
-export function createComboTools(
-  server: McpServer,
-  device: ButtplugClientDevice,
-  deviceVersion: SamNeoVersion,
-) {
-  server.tool(
-    "Svakom-Sam-Neo-Combo",
-    "A tool for simultaneous control of both vibration and vacuum/suction functionality of the Svakom Sam Neo. This tool allows precise coordination of both stimulation types for enhanced experience.",
-    {
-      duration: z
-        .number()
-        .min(1000)
-        .max(100000)
-        .describe(
-          "Total duration in milliseconds for the combined stimulation",
-        ),
-      steps: z
-        .number()
-        .min(20)
-        .max(1000)
-        .default(20)
-        .describe("Number of steps for the piston motion pattern"),
-      vibrationPower: z
-        .number()
-        .min(0)
-        .max(1)
-        .default(0.5)
-        .describe("Base vibration intensity (0.0 to 1.0)"),
-      vacuumIntensity: z
-        .number()
-        .min(0)
-        .max(1)
-        .default(0.5)
-        .describe("Vacuum/suction intensity (0.0 to 1.0)"),
-      syncMode: z
-        .enum(["synchronized", "alternating", "independent"])
-        .default("synchronized")
-        .describe(
-          "How vibration and vacuum are coordinated: synchronized (together), alternating (opposite), independent (separate patterns)",
-        ),
-      vacuumPattern: z
-        .enum(["constant", "pulse", "wave"])
-        .default("constant")
-        .describe("Vacuum pattern when in independent mode"),
-    },
+  if (vibrationWaveform) {
+    vibration = waveformSchedule("vibration", vibrationWaveform, duration);
+  }
+  if (vacuumWaveform) {
+    vacuum = waveformSchedule("vacuum", vacuumWaveform, duration, phaseOffset);
+  }
+
+  // Both channels driven from the same clock
+  return mergeSchedules(vibration, vacuum);
+}
 
-    async ({
+export function comboPattern(params: ComboParams): Pattern {
+  const { duration, steps, vibrationPower, vacuumIntensity, syncMode } = params;
+  return async (ctx) => {
+    log.debug("Starting combo", {
       duration,
       steps,
       vibrationPower,
       vacuumIntensity,
       syncMode,
-      vacuumPattern,
-    }) => {
-      try {
-        console.error(
-          `[ComboTool] Starting combo: duration=${duration}ms, steps=${steps}, vibrationPower=${vibrationPower}, vacuumIntensity=${vacuumIntensity}, syncMode=${syncMode}, device=${deviceVersion}`,
-        );
-
-        const diff = 1 / steps;
-        const delay = duration / steps;
-
-        if (syncMode === "synchronized") {
-          // Both vibration and vacuum follow the same stepping pattern
-          for (let i = 0; i < steps; i++) {
-            const intensity = diff * i;
-
-            if (deviceVersion === SamNeoVersion.ORIGINAL) {
-              // Original Sam Neo: Use combined vibrate API
-              await executeOriginalComboControl(
-                device,
-                intensity * vibrationPower,
-                intensity * vacuumIntensity,
-              );
-            } else {
-              // Sam Neo 2 Series (Neo2/Neo2 Pro): Separate control
-              await device.scalar([
-                {
-                  Index: 0,
-                  Scalar: intensity * vibrationPower,
-                  ActuatorType: ActuatorType.Vibrate,
-                },
-              ]);
-
-              await executeNeo2ComboVacuumControl(
-                device,
-                intensity * vacuumIntensity,
-              );
-            }
-
-            await new Promise((resolve) => setTimeout(resolve, delay));
-          }
-        } else if (syncMode === "alternating") {
-          // Vibration and vacuum alternate - when one is high, the other is low
-          for (let i = 0; i < steps; i++) {
-            const intensity = diff * i;
-            const vibrationLevel = intensity * vibrationPower;
-            const vacuumLevel = (1 - intensity) * vacuumIntensity; // Opposite pattern
-
-            if (deviceVersion === SamNeoVersion.ORIGINAL) {
-              // Original Sam Neo: Use combined vibrate API with alternating pattern
-              await executeOriginalComboControl(
-                device,
-                vibrationLevel,
-                vacuumLevel,
-              );
-            } else {
-              // Sam Neo 2 Series (Neo2/Neo2 Pro): Separate control with alternating pattern
-              await device.scalar([
-                {
-                  Index: 0,
-                  Scalar: vibrationLevel,
-                  ActuatorType: ActuatorType.Vibrate,
-                },
-              ]);
-
-              await executeNeo2ComboVacuumControl(device, vacuumLevel);
-            }
-
-            await new Promise((resolve) => setTimeout(resolve, delay));
-          }
-        } else if (syncMode === "independent") {
-          if (deviceVersion === SamNeoVersion.ORIGINAL) {
-            // Original Sam Neo: Cannot truly run independent patterns simultaneously
-            // Fall back to synchronized mode with a warning
-            console.error(
-              `[ComboTool] Warning: Original Sam Neo doesn't support independent mode, using synchronized instead`,
-            );
-            for (let i = 0; i < steps; i++) {
-              const intensity = diff * i;
-              const currentVacuum =
-                vacuumPattern === "wave"
-                  ? Math.sin((i / steps) * Math.PI) * vacuumIntensity
-                  : vacuumIntensity;
-
-              await executeOriginalComboControl(
-                device,
-                intensity * vibrationPower,
-                currentVacuum,
-              );
-              await new Promise((resolve) => setTimeout(resolve, delay));
-            }
-          } else {
-            // Sam Neo 2 Series (Neo2/Neo2 Pro): Run vibration stepping and vacuum pattern independently and simultaneously
-            const vibrationPromise = (async () => {
-              for (let i = 0; i < steps; i++) {
-                const intensity = diff * i;
-                await device.scalar([
-                  {
-                    Index: 0,
-                    Scalar: intensity * vibrationPower,
-                    ActuatorType: ActuatorType.Vibrate,
-                  },
-                ]);
-                await new Promise((resolve) => setTimeout(resolve, delay));
-              }
-            })();
-
-            const vacuumPromise = (async () => {
-              if (vacuumPattern === "constant") {
-                await executeNeo2ComboVacuumControl(device, vacuumIntensity);
-                await new Promise((resolve) => setTimeout(resolve, duration));
-              } else if (vacuumPattern === "pulse") {
-                const pulseInterval = 500; // Fixed pulse interval for combo mode
-                const cycles = Math.floor(duration / (pulseInterval * 2));
-                for (let i = 0; i < cycles; i++) {
-                  await executeNeo2ComboVacuumControl(device, vacuumIntensity);
-                  await new Promise((resolve) =>
-                    setTimeout(resolve, pulseInterval),
-                  );
+      device: ctx.version,
+    });
 
-                  await executeNeo2ComboVacuumControl(device, 0);
-                  await new Promise((resolve) =>
-                    setTimeout(resolve, pulseInterval),
-                  );
-                }
-              } else if (vacuumPattern === "wave") {
-                const waveSteps = 20;
-                const stepDuration = duration / (waveSteps * 2);
+    await ctx.play(comboSchedule(params, ctx.version));
 
-                // Increase
-                for (let i = 0; i <= waveSteps; i++) {
-                  const currentIntensity = (i / waveSteps) * vacuumIntensity;
-                  await executeNeo2ComboVacuumControl(device, currentIntensity);
-                  await new Promise((resolve) =>
-                    setTimeout(resolve, stepDuration),
-                  );
-                }
+    // Stop both actuators
+    await ctx.setLevels({ vibration: 0, vacuum: 0 });
 
-                // Decrease
-                for (let i = waveSteps; i >= 0; i--) {
-                  const currentIntensity = (i / waveSteps) * vacuumIntensity;
-                  await executeNeo2ComboVacuumControl(device, currentIntensity);
-                  await new Promise((resolve) =>
-                    setTimeout(resolve, stepDuration),
-                  );
-                }
-              }
-            })();
-
-            // Wait for both patterns to complete
-            await Promise.all([vibrationPromise, vacuumPromise]);
-          }
-        }
-
-        // Stop both actuators
-        if (deviceVersion === SamNeoVersion.ORIGINAL) {
-          // Original Sam Neo: Stop both vibrators
-          await device.vibrate([0, 0]);
-        } else {
-          // Sam Neo 2 Series (Neo2/Neo2 Pro): Stop vibration and vacuum separately
-          await device.scalar([
-            {
-              Index: 0,
-              Scalar: 0,
-              ActuatorType: ActuatorType.Vibrate,
-            },
-          ]);
+    log.debug("Combo completed", {
+      duration,
+      steps,
+      syncMode,
+      device: ctx.version,
+      vacuumMethod: ctx.vacuumMethod,
+    });
+    return `Combo stimulation completed - duration: ${duration}ms, steps: ${steps}, vibration: ${vibrationPower}, vacuum: ${vacuumIntensity}, mode: ${syncMode}, device: ${ctx.version}`;
+  };
+}
 
-          await executeNeo2ComboVacuumControl(device, 0);
-        }
+export function createComboTools(server: McpServer, sessions: SessionManager) {
+  server.registerTool(
+    "Svakom-Sam-Neo-Combo",
+    {
+      description:
+        "A tool for simultaneous control of both vibration and vacuum/suction functionality of the Svakom Sam Neo. This tool allows precise coordination of both stimulation types for enhanced experience.",
+      inputSchema: {
+        ...comboParams,
+        device: deviceParam,
+      },
+      outputSchema: sessionStartedOutput,
+    },
+    traced(server, async (params) => {
+      const {
+        duration,
+        steps,
+        vibrationPower,
+        vacuumIntensity,
+        syncMode,
+        vacuumPattern,
+      } = params;
+      try {
+        const session = await sessions.start(
+          "Svakom-Sam-Neo-Combo",
+          params,
+          comboPattern(params),
+          params.device,
+          comboPlan(params),
+        );
 
-        console.error(
-          `[ComboTool] Completed: duration=${duration}ms, steps=${steps}, vibrationPower=${vibrationPower}, vacuumIntensity=${vacuumIntensity}, syncMode=${syncMode}, device=${deviceVersion}`,
+        return toolResult(
+          `Combo stimulation started - session: ${session.id}, duration: ${duration}ms, steps: ${steps}, vibration: ${vibrationPower}, vacuum: ${vacuumIntensity}, mode: ${syncMode}${describeWaveforms({ vibration: params.vibrationWaveform, vacuum: params.vacuumWaveform }, params.phaseOffset)}, device: ${session.device} (${session.version})${describeLimits(session)}`,
+          {
+            session: summarizeSession(session),
+          },
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Combo stimulation completed - duration: ${duration}ms, steps: ${steps}, vibration: ${vibrationPower}, vacuum: ${vacuumIntensity}, mode: ${syncMode}, device: ${deviceVersion}`,
-            },
-          ],
-        };
       } catch (e) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error: ${e}`,
-            },
-          ],
-        };
+        return errorResult(e);
       }
-    },
+    }),
   );
 }
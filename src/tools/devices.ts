@@ -0,0 +1,79 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { type ConnectionManager } from "../connection.js";
+import { type SessionManager } from "../sessions.js";
+import {
+  deviceOutput,
+  deviceOutputSchema,
+  toolOutput,
+  toolResult,
+} from "./results.js";
+import { traced } from "./simulator.js";
+
+export function createDeviceTools(
+  server: McpServer,
+  connection: ConnectionManager,
+  sessions: SessionManager,
+) {
+  server.registerTool(
+    "Svakom-Sam-Neo-Devices",
+    {
+      description:
+        "Lists every connected Svakom Sam Neo with its index, name and detected version (original or neo2_series). Pass the index or name as the `device` parameter of the other tools to target a specific device.",
+      outputSchema: toolOutput({
+        state: z
+          .enum(["connecting", "scanning", "ready"])
+          .describe("Connection to Intiface"),
+        devices: z.array(
+          deviceOutputSchema.extend({
+            default: z
+              .boolean()
+              .describe("Used by tools called without a device"),
+            session: z
+              .string()
+              .optional()
+              .describe("Id of the session playing on the device"),
+            tool: z.string().optional(),
+          }),
+        ),
+      }),
+    },
+    traced(server, async () => {
+      const devices = connection.devices;
+      if (devices.length === 0) {
+        return toolResult(
+          `No Sam Neo devices connected (${connection.state})`,
+          { state: connection.state, devices: [] },
+        );
+      }
+
+      const defaultDriver = connection.driver;
+      const running = sessions.list();
+      const entries = devices.map((driver) => ({
+        driver,
+        session: running.find(
+          (session) => session.deviceIndex === driver.device.index,
+        ),
+      }));
+      const lines = entries.map(({ driver, session }) =>
+        [
+          `${driver.device.index}: ${driver.device.name}`,
+          `version: ${driver.version}`,
+          `vacuum: ${driver.vacuumMethod}`,
+          session ? `playing: ${session.tool} (${session.id})` : "idle",
+          ...(driver === defaultDriver ? ["default"] : []),
+        ].join(", "),
+      );
+
+      return toolResult(lines.join("\n"), {
+        state: connection.state,
+        devices: entries.map(({ driver, session }) => ({
+          ...deviceOutput(driver),
+          default: driver === defaultDriver,
+          session: session?.id,
+          tool: session?.tool,
+        })),
+      });
+    }),
+  );
+}
@@ -1,229 +1,244 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { type ButtplugClientDevice, ActuatorType } from "buttplug";
-import { SamNeoVersion } from "../main.js";
-
-// Helper function for Sam Neo 2 vacuum control (reused from vacuum.ts)
-async function executeNeo2VacuumControl(
-  device: ButtplugClientDevice,
-  intensity: number,
-): Promise<string> {
-  const approaches = [
-    // Approach 1: Try Constrict ActuatorType (most likely for vacuum/suction)
-    async () => {
-      await device.scalar([
-        {
-          Index: 1, // Constrict uses Index 1 based on device capabilities
-          Scalar: intensity,
-          ActuatorType: "Constrict" as any, // Try as string first
-        },
-      ]);
-      return "Constrict";
-    },
+import { deviceParam } from "../device.js";
+import {
+  type Interruption,
+  type Pattern,
+  type SessionManager,
+  describeLimits,
+  sessionSummarySchema,
+  summarizeSession,
+} from "../sessions.js";
+import { type SessionPlan } from "../safety.js";
+import { type DeviceStateTracker } from "../state.js";
+import { type ActuatorLevels } from "../driver.js";
+import { type Schedule, type ScheduledStep } from "../scheduler.js";
+import { errorResult, toolOutput, toolResult } from "./results.js";
+import { traced } from "./simulator.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("ExtendedO");
+
+export const extendedOParams = {
+  currentVibration: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe(
+      "Current vibration intensity (0.0 to 1.0) that will be reduced and later restored. Defaults to the last level sent to the device",
+    ),
+  currentVacuum: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe(
+      "Current vacuum/suction intensity (0.0 to 1.0) that will be reduced and later restored. Defaults to the last level sent to the device",
+    ),
+  holdDuration: z
+    .number()
+    .min(1000)
+    .max(60000)
+    .default(10000)
+    .describe("Duration in milliseconds to hold the reduced intensity"),
+  minimumLevel: z
+    .number()
+    .min(0)
+    .max(0.3)
+    .default(0.1)
+    .describe("Minimum intensity level during Extended O (default: 0.1)"),
+  restoreDuration: z
+    .number()
+    .min(0)
+    .max(5000)
+    .default(500)
+    .describe(
+      "Duration in milliseconds to restore to original intensity (0 for instant)",
+    ),
+};
+
+export type ExtendedOParams = z.infer<z.ZodObject<typeof extendedOParams>>;
+
+// Fills in the levels to restore from what the device is doing now
+export function resolveExtendedO(
+  params: ExtendedOParams,
+  current: Required<ActuatorLevels>,
+): Required<ExtendedOParams> {
+  return {
+    ...params,
+    currentVibration: params.currentVibration ?? current.vibration,
+    currentVacuum: params.currentVacuum ?? current.vacuum,
+  };
+}
 
-    // Approach 2: Try LinearCmd for position-based control
-    async () => {
-      await device.linear([[intensity, 100]]);
-      return "Linear";
-    },
+export function extendedOPlan({
+  currentVibration,
+  currentVacuum,
+  holdDuration,
+  restoreDuration,
+}: Required<ExtendedOParams>): SessionPlan {
+  return {
+    vibration: currentVibration,
+    vacuum: currentVacuum,
+    duration: holdDuration + restoreDuration,
+  };
+}
 
-    // Approach 3: Try different Index with Inflate
-    async () => {
-      await device.scalar([
-        {
-          Index: 1,
-          Scalar: intensity,
-          ActuatorType: ActuatorType.Inflate,
-        },
-      ]);
-      return "Inflate-Index1";
-    },
+export function extendedOSchedule({
+  currentVibration,
+  currentVacuum,
+  holdDuration,
+  minimumLevel,
+  restoreDuration,
+}: Required<ExtendedOParams>): Schedule {
+  // Step 1: Immediately reduce both vibration and vacuum to minimum level
+  // (instant: the sudden drop is the point, so no slew-rate ramp)
+  const drop: ScheduledStep = {
+    at: 0,
+    levels: { vibration: minimumLevel, vacuum: minimumLevel },
+    instant: true,
+  };
+
+  // Step 2: Hold at minimum level for specified duration
+  // Step 3: Restore to original intensity, instantly or in 10 steps
+  const steps = restoreDuration === 0 ? 1 : 10;
+  const stepDelay = restoreDuration / steps;
+  const vibrationStep = (currentVibration - minimumLevel) / steps;
+  const vacuumStep = (currentVacuum - minimumLevel) / steps;
+  const restore: ScheduledStep[] = Array.from({ length: steps }, (_, i) => ({
+    at: holdDuration + stepDelay * i,
+    levels:
+      steps === 1
+        ? { vibration: currentVibration, vacuum: currentVacuum }
+        : {
+            vibration: minimumLevel + vibrationStep * (i + 1),
+            vacuum: minimumLevel + vacuumStep * (i + 1),
+          },
+  }));
+
+  return {
+    steps: [drop, ...restore],
+    duration: holdDuration + restoreDuration,
+  };
+}
 
-    // Approach 4: Original Inflate approach (as fallback)
-    async () => {
-      await device.scalar([
-        {
-          Index: 0,
-          Scalar: intensity,
-          ActuatorType: ActuatorType.Inflate,
-        },
-      ]);
-      return "Inflate-Index0";
-    },
-  ];
-
-  for (const approach of approaches) {
-    try {
-      const result = await approach();
-      console.error(
-        `[ExtendedO] Vacuum control success with approach: ${result}`,
-      );
-      return result;
-    } catch (error) {
-      console.error(`[ExtendedO] Vacuum approach failed: ${error}`);
-      continue;
-    }
-  }
-
-  throw new Error("All Neo2 vacuum control approaches failed");
+export function extendedOPattern(params: Required<ExtendedOParams>): Pattern {
+  const {
+    currentVibration,
+    currentVacuum,
+    holdDuration,
+    minimumLevel,
+    restoreDuration,
+  } = params;
+  return async (ctx) => {
+    log.debug("Starting Extended O", {
+      currentVibration,
+      currentVacuum,
+      holdDuration,
+      minimumLevel,
+      restoreDuration,
+      device: ctx.version,
+    });
+
+    await ctx.play(extendedOSchedule(params));
+
+    log.debug("Extended O completed", { device: ctx.version });
+    return `Extended O completed - held at ${minimumLevel} for ${holdDuration}ms, restored to vibration: ${currentVibration}, vacuum: ${currentVacuum}, device: ${ctx.version}`;
+  };
 }
 
+/**
+ * Extended O over a running session: its schedule pauses for the drop, hold
+ * and restore, and the restore ramps back to the levels it paused at unless
+ * the caller gave others.
+ */
+export function extendedOInterruption(params: ExtendedOParams): Interruption {
+  return async (ctx, resumeLevels) => {
+    const resolved = resolveExtendedO(params, resumeLevels);
+    log.debug("Interrupting running pattern", {
+      minimumLevel: resolved.minimumLevel,
+      holdDuration: resolved.holdDuration,
+      restoreTo: {
+        vibration: resolved.currentVibration,
+        vacuum: resolved.currentVacuum,
+      },
+      restoreDuration: resolved.restoreDuration,
+      device: ctx.version,
+    });
+    await ctx.play(extendedOSchedule(resolved));
+    log.debug("Interruption completed, resuming pattern", {
+      device: ctx.version,
+    });
+  };
+}
+
+const extendedOOutput = toolOutput({
+  session: sessionSummarySchema.describe(
+    "The session Extended O plays in: the pattern it interrupts, or its own",
+  ),
+  interrupted: z
+    .boolean()
+    .describe(
+      "Whether it interrupts a running pattern rather than playing on its own",
+    ),
+});
+
 export function createExtendedOTools(
   server: McpServer,
-  device: ButtplugClientDevice,
-  deviceVersion: SamNeoVersion,
+  tracker: DeviceStateTracker,
+  sessions: SessionManager,
 ) {
-  server.tool(
+  server.registerTool(
     "Svakom-Sam-Neo-ExtendedO",
-    "Extended O mode for Svakom Sam Neo 2 - A special function that instantly reduces both vibration and suction to their lowest intensity to prolong and intensify climax. This simulates the device's Extended O feature which helps manage ejaculation control by lowering intensity at the critical moment.",
     {
-      currentVibration: z
-        .number()
-        .min(0)
-        .max(1)
-        .describe(
-          "Current vibration intensity (0.0 to 1.0) that will be reduced",
-        ),
-      currentVacuum: z
-        .number()
-        .min(0)
-        .max(1)
-        .describe(
-          "Current vacuum/suction intensity (0.0 to 1.0) that will be reduced",
-        ),
-      holdDuration: z
-        .number()
-        .min(1000)
-        .max(60000)
-        .default(10000)
-        .describe("Duration in milliseconds to hold the reduced intensity"),
-      minimumLevel: z
-        .number()
-        .min(0)
-        .max(0.3)
-        .default(0.1)
-        .describe("Minimum intensity level during Extended O (default: 0.1)"),
-      restoreDuration: z
-        .number()
-        .min(0)
-        .max(5000)
-        .default(500)
-        .describe(
-          "Duration in milliseconds to restore to original intensity (0 for instant)",
-        ),
+      description:
+        "Extended O mode for Svakom Sam Neo 2 - A special function that instantly reduces both vibration and suction to their lowest intensity to prolong and intensify climax. This simulates the device's Extended O feature which helps manage ejaculation control by lowering intensity at the critical moment. While a pattern is playing, it interrupts that pattern: the pattern pauses, the device holds at the minimum level, ramps back to where the pattern was, and the pattern resumes from where it paused.",
+      inputSchema: {
+        ...extendedOParams,
+        device: deviceParam,
+      },
+      outputSchema: extendedOOutput,
     },
-
-    async ({
-      currentVibration,
-      currentVacuum,
-      holdDuration,
-      minimumLevel,
-      restoreDuration,
-    }) => {
+    traced(server, async (params) => {
       try {
-        console.error(
-          `[ExtendedO] Starting Extended O mode: currentVibration=${currentVibration}, currentVacuum=${currentVacuum}, holdDuration=${holdDuration}ms, minimumLevel=${minimumLevel}, device=${deviceVersion}`,
+        const interrupted = sessions.interrupt(
+          "ExtendedO",
+          extendedOInterruption(params),
+          params.device,
         );
-
-        // Step 1: Immediately reduce both vibration and vacuum to minimum level
-        if (deviceVersion === SamNeoVersion.ORIGINAL) {
-          // Original Sam Neo: Use combined vibrate API
-          await device.vibrate([minimumLevel, minimumLevel]);
-          console.error(
-            `[ExtendedO] Original Sam Neo reduced to minimum: ${minimumLevel}`,
-          );
-        } else {
-          // Sam Neo 2 Series: Separate control
-          // Reduce vibration
-          await device.scalar([
-            {
-              Index: 0,
-              Scalar: minimumLevel,
-              ActuatorType: ActuatorType.Vibrate,
-            },
-          ]);
-
-          // Reduce vacuum
-          await executeNeo2VacuumControl(device, minimumLevel);
-          console.error(
-            `[ExtendedO] Neo2 Series reduced to minimum: ${minimumLevel}`,
+        if (interrupted) {
+          const { holdDuration, minimumLevel, restoreDuration } = params;
+          return toolResult(
+            `Extended O interrupting ${interrupted.tool} session ${interrupted.id} - holding at ${minimumLevel} for ${holdDuration}ms, restoring over ${restoreDuration}ms, then resuming the pattern, device: ${interrupted.device} (${interrupted.version})`,
+            { session: summarizeSession(interrupted), interrupted: true },
           );
         }
 
-        // Step 2: Hold at minimum level for specified duration
-        console.error(
-          `[ExtendedO] Holding at minimum level for ${holdDuration}ms`,
+        // Nothing to interrupt: play on its own. Read before starting:
+        // starting cancels whatever is playing now
+        const resolved = resolveExtendedO(
+          params,
+          tracker.levels(params.device),
+        );
+        const { currentVibration, currentVacuum, holdDuration, minimumLevel } =
+          resolved;
+
+        const session = await sessions.start(
+          "Svakom-Sam-Neo-ExtendedO",
+          { ...params, currentVibration, currentVacuum },
+          extendedOPattern(resolved),
+          params.device,
+          extendedOPlan(resolved),
         );
-        await new Promise((resolve) => setTimeout(resolve, holdDuration));
-
-        // Step 3: Restore to original intensity
-        if (restoreDuration === 0) {
-          // Instant restore
-          if (deviceVersion === SamNeoVersion.ORIGINAL) {
-            await device.vibrate([currentVibration, currentVacuum]);
-          } else {
-            await device.scalar([
-              {
-                Index: 0,
-                Scalar: currentVibration,
-                ActuatorType: ActuatorType.Vibrate,
-              },
-            ]);
-            await executeNeo2VacuumControl(device, currentVacuum);
-          }
-          console.error(`[ExtendedO] Instantly restored to original levels`);
-        } else {
-          // Gradual restore
-          const steps = 10;
-          const stepDelay = restoreDuration / steps;
-          const vibrationStep = (currentVibration - minimumLevel) / steps;
-          const vacuumStep = (currentVacuum - minimumLevel) / steps;
-
-          for (let i = 1; i <= steps; i++) {
-            const vibrationLevel = minimumLevel + vibrationStep * i;
-            const vacuumLevel = minimumLevel + vacuumStep * i;
-
-            if (deviceVersion === SamNeoVersion.ORIGINAL) {
-              await device.vibrate([vibrationLevel, vacuumLevel]);
-            } else {
-              await device.scalar([
-                {
-                  Index: 0,
-                  Scalar: vibrationLevel,
-                  ActuatorType: ActuatorType.Vibrate,
-                },
-              ]);
-              await executeNeo2VacuumControl(device, vacuumLevel);
-            }
-
-            await new Promise((resolve) => setTimeout(resolve, stepDelay));
-          }
-          console.error(
-            `[ExtendedO] Gradually restored to original levels over ${restoreDuration}ms`,
-          );
-        }
 
-        console.error(
-          `[ExtendedO] Extended O mode completed - device: ${deviceVersion}`,
+        return toolResult(
+          `Extended O started - session: ${session.id}, holding at ${minimumLevel} for ${holdDuration}ms, then restoring to vibration: ${currentVibration}, vacuum: ${currentVacuum}, device: ${session.device} (${session.version})${describeLimits(session)}`,
+          { session: summarizeSession(session), interrupted: false },
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Extended O completed - held at ${minimumLevel} for ${holdDuration}ms, restored to vibration: ${currentVibration}, vacuum: ${currentVacuum}, device: ${deviceVersion}`,
-            },
-          ],
-        };
       } catch (e) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error: ${e}`,
-            },
-          ],
-        };
+        return errorResult(e);
       }
-    },
+    }),
   );
 }
@@ -0,0 +1,171 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { deviceParam } from "../device.js";
+import { InvalidInputError } from "../errors.js";
+import {
+  type SessionManager,
+  describeLimits,
+  summarizeSession,
+} from "../sessions.js";
+import {
+  type Timeline,
+  scheduleSamples,
+  sampleTimeline,
+  timelineDuration,
+  timelinePlan,
+} from "../timeline.js";
+import {
+  funscriptMappingSchema,
+  funscriptToKeyframes,
+  loadFunscript,
+} from "../funscript.js";
+import { errorResult, sessionStartedOutput, toolResult } from "./results.js";
+import { traced } from "./simulator.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("FunscriptTool");
+
+export function createFunscriptTools(
+  server: McpServer,
+  sessions: SessionManager,
+) {
+  server.registerTool(
+    "Svakom-Sam-Neo-Funscript",
+    {
+      description:
+        "Plays a local .funscript file on the Svakom Sam Neo. The script's stroke position or speed is converted into vibration intensity and suction level. A second funscript (e.g. another axis of a multi-axis script) can drive the vacuum channel separately. Works on both the original Sam Neo and the Sam Neo 2 series.",
+      inputSchema: {
+        path: z
+          .string()
+          .min(1)
+          .describe(
+            "Path to the .funscript file on this machine. Drives vibration, and vacuum too unless vacuumPath is given",
+          ),
+        vacuumPath: z
+          .string()
+          .min(1)
+          .optional()
+          .describe(
+            "Optional path to a second .funscript (e.g. another axis) that drives the vacuum channel",
+          ),
+        vibrationMapping: funscriptMappingSchema
+          .default("speed")
+          .describe(
+            "How the script drives vibration: position, inverted-position, speed or off",
+          ),
+        vacuumMapping: funscriptMappingSchema
+          .default("position")
+          .describe(
+            "How the script drives vacuum: position, inverted-position, speed or off",
+          ),
+        offset: z
+          .number()
+          .min(-60000)
+          .max(60000)
+          .default(0)
+          .describe(
+            "Milliseconds added to every action time (positive plays later, negative skips ahead)",
+          ),
+        speed: z
+          .number()
+          .min(0.25)
+          .max(4)
+          .default(1)
+          .describe("Playback speed multiplier (2 = twice as fast)"),
+        intensityScale: z
+          .number()
+          .min(0)
+          .max(1)
+          .default(1)
+          .describe("Scales every output level (0.0 to 1.0)"),
+        resolution: z
+          .number()
+          .min(20)
+          .max(1000)
+          .default(50)
+          .describe("Milliseconds between commands sent to the device"),
+        device: deviceParam,
+      },
+      outputSchema: sessionStartedOutput,
+    },
+    traced(server, async (params) => {
+      const {
+        path,
+        vacuumPath,
+        vibrationMapping,
+        vacuumMapping,
+        offset,
+        speed,
+        intensityScale,
+        resolution,
+      } = params;
+      try {
+        if (vibrationMapping === "off" && vacuumMapping === "off") {
+          throw new InvalidInputError(
+            "vibrationMapping and vacuumMapping are both off",
+          );
+        }
+
+        const timing = { offset, speed, intensityScale };
+        const script = await loadFunscript(path);
+        const vacuumScript = vacuumPath
+          ? await loadFunscript(vacuumPath)
+          : script;
+
+        const timeline: Timeline = {
+          vibration:
+            vibrationMapping === "off"
+              ? undefined
+              : funscriptToKeyframes(script, vibrationMapping, timing),
+          vacuum:
+            vacuumMapping === "off"
+              ? undefined
+              : funscriptToKeyframes(vacuumScript, vacuumMapping, timing),
+          resolution,
+        };
+        const samples = sampleTimeline(timeline);
+        const duration = timelineDuration(timeline);
+        const mapping = `vibration=${vibrationMapping}, vacuum=${vacuumMapping}${vacuumPath ? " (separate script)" : ""}`;
+
+        const session = await sessions.start(
+          "Svakom-Sam-Neo-Funscript",
+          params,
+          async (ctx) => {
+            log.debug("Starting funscript", {
+              path,
+              mapping,
+              offset,
+              speed,
+              intensityScale,
+              duration,
+              device: ctx.version,
+            });
+
+            await ctx.play(scheduleSamples(samples));
+
+            // Stop both actuators
+            await ctx.setLevels({ vibration: 0, vacuum: 0 });
+
+            log.debug("Funscript completed", {
+              path,
+              duration,
+              device: ctx.version,
+            });
+            return `Funscript completed - duration: ${duration}ms, ${mapping}, device: ${ctx.version}`;
+          },
+          params.device,
+          timelinePlan(timeline),
+        );
+
+        return toolResult(
+          `Funscript started - session: ${session.id}, actions: ${script.actions.length}${vacuumPath ? ` + ${vacuumScript.actions.length}` : ""}, duration: ${duration}ms, ${mapping}, speed: ${speed}, offset: ${offset}ms, intensityScale: ${intensityScale}, device: ${session.device} (${session.version})${describeLimits(session)}`,
+          {
+            session: summarizeSession(session),
+          },
+        );
+      } catch (e) {
+        return errorResult(e);
+      }
+    }),
+  );
+}
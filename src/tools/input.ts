@@ -0,0 +1,254 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { deviceParam } from "../device.js";
+import {
+  describeLimits,
+  describeSession,
+  sessionSummarySchema,
+  summarizeSession,
+} from "../sessions.js";
+import {
+  type ChannelMapping,
+  DEFAULT_INPUT_PORTS,
+  type InputManager,
+  type InputMode,
+  channelMappingSchema,
+  inputProtocolSchema,
+} from "../input.js";
+import { errorResult, toolOutput, toolResult } from "./results.js";
+import { traced } from "./simulator.js";
+
+function describeMapping(mapping: ChannelMapping | undefined): string {
+  if (!mapping) return "off";
+  return `${mapping.signal} ${mapping.invert ? `${mapping.max}..${mapping.min}` : `${mapping.min}..${mapping.max}`} -> 0..${mapping.scale}, smoothing ${mapping.smoothing}ms`;
+}
+
+function ago(at: number | undefined): string {
+  return at === undefined ? "never" : `${Date.now() - at}ms ago`;
+}
+
+// Several lines: server, sources, latest signal values and the session
+function describeInputMode({ server, session, options }: InputMode): string {
+  const sources = server.listSources();
+  const signals = server.listSignals();
+  return [
+    `Input mode on ${server.url} (${options.protocol}) - vibration: ${describeMapping(options.vibration)}, vacuum: ${describeMapping(options.vacuum)}, timeout: ${options.timeout}ms`,
+    `  ${options.protocol === "websocket" ? "connected" : "senders"}: ${
+      sources.length > 0
+        ? sources
+            .map(
+              (source) =>
+                `${source.address} (${source.messages} messages, last ${ago(source.lastMessageAt)})`,
+            )
+            .join(", ")
+        : "none"
+    }`,
+    `  signals: ${
+      signals.length > 0
+        ? signals
+            .map(
+              ([name, signal]) => `${name}=${signal.value} (${ago(signal.at)})`,
+            )
+            .join(", ")
+        : "none yet"
+    }`,
+    `  messages: ${server.messages}, rejected: ${server.rejected}`,
+    `  session: ${describeSession(session)}`,
+  ].join("\n");
+}
+
+const inputModeSchema = z.object({
+  url: z.string(),
+  protocol: inputProtocolSchema,
+  vibration: channelMappingSchema.optional(),
+  vacuum: channelMappingSchema.optional(),
+  resolution: z.number(),
+  timeout: z.number(),
+  sources: z.array(
+    z.object({
+      address: z.string(),
+      // WebSocket clients only; OSC senders have no connection
+      connected: z.boolean(),
+      messages: z.number(),
+      lastMessageAt: z.string().optional(),
+    }),
+  ),
+  signals: z.record(z.object({ value: z.number(), at: z.string() })),
+  messages: z.number(),
+  rejected: z.number(),
+  session: sessionSummarySchema,
+});
+
+function isoTime(at: number): string {
+  return new Date(at).toISOString();
+}
+
+function inputModeOutput({
+  server,
+  session,
+  options,
+}: InputMode): z.infer<typeof inputModeSchema> {
+  return {
+    url: server.url,
+    protocol: options.protocol,
+    vibration: options.vibration,
+    vacuum: options.vacuum,
+    resolution: options.resolution,
+    timeout: options.timeout,
+    sources: server.listSources().map((source) => ({
+      address: source.address,
+      connected: source.connectedAt !== undefined,
+      messages: source.messages,
+      lastMessageAt:
+        source.lastMessageAt !== undefined
+          ? isoTime(source.lastMessageAt)
+          : undefined,
+    })),
+    signals: Object.fromEntries(
+      server
+        .listSignals()
+        .map(([name, signal]) => [
+          name,
+          { value: signal.value, at: isoTime(signal.at) },
+        ]),
+    ),
+    messages: server.messages,
+    rejected: server.rejected,
+    session: summarizeSession(session),
+  };
+}
+
+export function createInputTools(server: McpServer, input: InputManager) {
+  server.registerTool(
+    "Svakom-Sam-Neo-Input-Start",
+    {
+      description:
+        'Starts input mode: a local WebSocket or OSC (UDP) server that other programs on this machine, such as games, VR avatars, sensors or scripts, stream values to, which then drive vibration and vacuum in real time. Over WebSocket, send JSON text messages like {"vibration": 0.5, "vacuum": 0.2}; over OSC, send messages like /vibration 0.5. Input mode runs as a session on the device, so safety limits and the emergency stop apply, and starting another pattern on the device ends it.',
+      inputSchema: {
+        protocol: inputProtocolSchema.default("websocket"),
+        port: z
+          .number()
+          .int()
+          .min(1024)
+          .max(65535)
+          .optional()
+          .describe(
+            `Port to listen on (default ${DEFAULT_INPUT_PORTS.websocket} for websocket, ${DEFAULT_INPUT_PORTS.osc} for osc)`,
+          ),
+        vibration: channelMappingSchema
+          .optional()
+          .describe(
+            "How an input value drives vibration. Without vibration and vacuum mappings, the signals vibration and vacuum (/vibration and /vacuum over OSC) drive them 0..1",
+          ),
+        vacuum: channelMappingSchema
+          .optional()
+          .describe(
+            "How an input value drives vacuum. A channel without a mapping is left alone when the other one has one",
+          ),
+        resolution: z
+          .number()
+          .min(20)
+          .max(1000)
+          .default(50)
+          .describe("Milliseconds between level updates sent to the device"),
+        timeout: z
+          .number()
+          .min(100)
+          .max(60000)
+          .default(2000)
+          .describe(
+            "Milliseconds without a new value after which a channel falls back to 0, so a crashed sender doesn't leave the device running",
+          ),
+        duration: z
+          .number()
+          .min(1000)
+          .optional()
+          .describe(
+            "End input mode after this many milliseconds (runs until stopped if omitted)",
+          ),
+        device: deviceParam,
+      },
+      outputSchema: toolOutput({ mode: inputModeSchema }),
+    },
+    traced(
+      server,
+      async ({ protocol, port, vibration, vacuum, device, ...rest }) => {
+        try {
+          const prefix = protocol === "osc" ? "/" : "";
+          const mappings =
+            vibration || vacuum
+              ? { vibration, vacuum }
+              : {
+                  vibration: channelMappingSchema.parse({
+                    signal: `${prefix}vibration`,
+                  }),
+                  vacuum: channelMappingSchema.parse({
+                    signal: `${prefix}vacuum`,
+                  }),
+                };
+
+          const mode = await input.start(
+            {
+              protocol,
+              port: port ?? DEFAULT_INPUT_PORTS[protocol],
+              ...mappings,
+              ...rest,
+            },
+            device,
+          );
+
+          return toolResult(
+            `Input mode started - session: ${mode.session.id}, listening on ${mode.server.url}, vibration: ${describeMapping(mode.options.vibration)}, vacuum: ${describeMapping(mode.options.vacuum)}, device: ${mode.session.device} (${mode.session.version})${describeLimits(mode.session)}`,
+            { mode: inputModeOutput(mode) },
+          );
+        } catch (e) {
+          return errorResult(e);
+        }
+      },
+    ),
+  );
+
+  server.registerTool(
+    "Svakom-Sam-Neo-Input-Stop",
+    {
+      description:
+        "Stops input mode: closes the input server and brings both channels back to zero.",
+      outputSchema: toolOutput({
+        session: sessionSummarySchema.describe(
+          "The input session that was stopped; not set when input mode wasn't running",
+        ),
+      }),
+    },
+    traced(server, async () => {
+      try {
+        const session = await input.stop();
+        return toolResult(
+          session
+            ? `Input mode stopped - session: ${session.id}, device: ${session.device}`
+            : "Input mode is not running",
+          { session: session && summarizeSession(session) },
+        );
+      } catch (e) {
+        return errorResult(e);
+      }
+    }),
+  );
+
+  server.registerTool(
+    "Svakom-Sam-Neo-Input-Status",
+    {
+      description:
+        "Shows input mode: where it listens, which programs are connected or sending, the latest value of every signal and the session driving the device.",
+      outputSchema: toolOutput({
+        mode: inputModeSchema.describe("Not set when input mode isn't running"),
+      }),
+    },
+    traced(server, async () => {
+      const mode = input.mode;
+      return toolResult(
+        mode ? describeInputMode(mode) : "Input mode is not running",
+        { mode: mode && inputModeOutput(mode) },
+      );
+    }),
+  );
+}
@@ -0,0 +1,274 @@
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { deviceParam } from "../device.js";
+import { InvalidInputError } from "../errors.js";
+import {
+  type Pattern,
+  type SessionManager,
+  describeLimits,
+  summarizeSession,
+} from "../sessions.js";
+import { type SessionPlan } from "../safety.js";
+import {
+  type PatternKind,
+  type PatternLibrary,
+  type SavedPattern,
+  patternKindSchema,
+  patternNameSchema,
+} from "../library.js";
+import { pistonParams, pistonPattern, pistonPlan } from "./piston.js";
+import { vacuumParams, vacuumPattern, vacuumPlan } from "./vacuum.js";
+import { comboParams, comboPattern, comboPlan } from "./combo.js";
+import { timelineParams, timelinePattern } from "./timeline.js";
+import { timelinePlan } from "../timeline.js";
+import {
+  errorResult,
+  sessionStartedOutput,
+  toolOutput,
+  toolResult,
+} from "./results.js";
+import { traced } from "./simulator.js";
+import { onServerClose } from "./server.js";
+
+const PATTERN_URI = "samneo://patterns";
+
+interface PatternKindEntry {
+  tool: string;
+  // Validates saved parameters, filling in the tool's defaults
+  parse: (params: unknown) => Record<string, unknown>;
+  build: (params: unknown) => Pattern;
+  plan: (params: unknown) => SessionPlan;
+}
+
+function patternKind<Shape extends z.ZodRawShape>(
+  tool: string,
+  shape: Shape,
+  pattern: (params: z.infer<z.ZodObject<Shape>>) => Pattern,
+  plan: (params: z.infer<z.ZodObject<Shape>>) => SessionPlan,
+): PatternKindEntry {
+  const schema = z.object(shape);
+  const parse = (params: unknown) => {
+    const result = schema.safeParse(params);
+    if (!result.success) {
+      throw new InvalidInputError(
+        `Invalid parameters for ${tool}: ${result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join(", ")}`,
+      );
+    }
+    return result.data;
+  };
+  return {
+    tool,
+    parse,
+    build: (params) => pattern(parse(params)),
+    plan: (params) => plan(parse(params)),
+  };
+}
+
+const patternKinds: Record<PatternKind, PatternKindEntry> = {
+  piston: patternKind(
+    "Svakom-Sam-Neo-Piston",
+    pistonParams,
+    pistonPattern,
+    pistonPlan,
+  ),
+  vacuum: patternKind(
+    "Svakom-Sam-Neo-Vacuum",
+    vacuumParams,
+    vacuumPattern,
+    vacuumPlan,
+  ),
+  combo: patternKind(
+    "Svakom-Sam-Neo-Combo",
+    comboParams,
+    comboPattern,
+    comboPlan,
+  ),
+  timeline: patternKind(
+    "Svakom-Sam-Neo-Timeline",
+    timelineParams,
+    timelinePattern,
+    ({ timeline }) => timelinePlan(timeline),
+  ),
+};
+
+const savedPatternOutputSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  kind: patternKindSchema,
+  builtin: z.boolean(),
+  params: z.record(z.unknown()),
+  savedAt: z.string().optional(),
+});
+
+function patternOutput(
+  pattern: SavedPattern,
+): z.infer<typeof savedPatternOutputSchema> {
+  return { ...pattern, builtin: pattern.builtin ?? false };
+}
+
+function describePattern(pattern: SavedPattern): string {
+  return `${pattern.name} (${pattern.kind}${pattern.builtin ? ", built-in" : ""})${pattern.description ? ` - ${pattern.description}` : ""}`;
+}
+
+export function createLibraryTools(
+  server: McpServer,
+  library: PatternLibrary,
+  sessions: SessionManager,
+) {
+  // Patterns saved or deleted by any client change every client's list
+  const onChange = () => server.sendResourceListChanged();
+  library.on("change", onChange);
+  onServerClose(server, () => library.off("change", onChange));
+
+  server.resource(
+    "Saved patterns",
+    new ResourceTemplate(`${PATTERN_URI}/{name}`, {
+      list: async () => ({
+        resources: (await library.list()).map((pattern) => ({
+          uri: `${PATTERN_URI}/${pattern.name}`,
+          name: pattern.name,
+          description: describePattern(pattern),
+          mimeType: "application/json",
+        })),
+      }),
+    }),
+    {
+      description:
+        "Named Sam Neo patterns (built-in presets and saved ones) that Svakom-Sam-Neo-Play-Pattern can play",
+      mimeType: "application/json",
+    },
+    async (uri, { name }) => {
+      const pattern = await library.get(String(name));
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(pattern, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  server.registerTool(
+    "Svakom-Sam-Neo-Patterns",
+    {
+      description:
+        "Lists the named patterns in the library: built-in presets and patterns saved with Svakom-Sam-Neo-Save-Pattern. They are also available as samneo://patterns/{name} resources.",
+      outputSchema: toolOutput({ patterns: z.array(savedPatternOutputSchema) }),
+    },
+    traced(server, async () => {
+      try {
+        const patterns = await library.list();
+        return toolResult(patterns.map(describePattern).join("\n"), {
+          patterns: patterns.map(patternOutput),
+        });
+      } catch (e) {
+        return errorResult(e);
+      }
+    }),
+  );
+
+  server.registerTool(
+    "Svakom-Sam-Neo-Save-Pattern",
+    {
+      description:
+        "Saves the parameters of a Piston, Vacuum or Combo call, or a custom keyframe timeline, under a name so it can be replayed later with Svakom-Sam-Neo-Play-Pattern. Saving under an existing name replaces that pattern.",
+      inputSchema: {
+        name: patternNameSchema,
+        description: z
+          .string()
+          .max(200)
+          .optional()
+          .describe("Short description shown when listing patterns"),
+        kind: patternKindSchema,
+        params: z
+          .record(z.unknown())
+          .describe(
+            'Parameters exactly as passed to the tool (e.g. {"duration": 30000, "syncMode": "alternating"} for combo, or {"timeline": {...}} for timeline). The device parameter is not saved',
+          ),
+      },
+      outputSchema: toolOutput({
+        pattern: savedPatternOutputSchema,
+        uri: z.string(),
+      }),
+    },
+    traced(server, async ({ name, description, kind, params }) => {
+      try {
+        const saved = await library.save({
+          name,
+          description,
+          kind,
+          params: patternKinds[kind].parse(params),
+        });
+        return toolResult(
+          `Pattern saved - ${describePattern(saved)}, uri: ${PATTERN_URI}/${saved.name}`,
+          {
+            pattern: patternOutput(saved),
+            uri: `${PATTERN_URI}/${saved.name}`,
+          },
+        );
+      } catch (e) {
+        return errorResult(e);
+      }
+    }),
+  );
+
+  server.registerTool(
+    "Svakom-Sam-Neo-Play-Pattern",
+    {
+      description:
+        "Plays a named pattern from the library (a built-in preset or one saved with Svakom-Sam-Neo-Save-Pattern) as a background session.",
+      inputSchema: {
+        name: z.string().describe("Name of the pattern to play"),
+        device: deviceParam,
+      },
+      outputSchema: sessionStartedOutput,
+    },
+    traced(server, async ({ name, device }) => {
+      try {
+        const saved = await library.get(name);
+        const kind = patternKinds[saved.kind];
+
+        const session = await sessions.start(
+          kind.tool,
+          { pattern: saved.name, ...saved.params },
+          kind.build(saved.params),
+          device,
+          kind.plan(saved.params),
+        );
+
+        return toolResult(
+          `Pattern "${saved.name}" started - session: ${session.id}, kind: ${saved.kind}, params: ${JSON.stringify(saved.params)}, device: ${session.device} (${session.version})${describeLimits(session)}`,
+          { session: summarizeSession(session) },
+        );
+      } catch (e) {
+        return errorResult(e);
+      }
+    }),
+  );
+
+  server.registerTool(
+    "Svakom-Sam-Neo-Delete-Pattern",
+    {
+      description:
+        "Deletes a pattern saved with Svakom-Sam-Neo-Save-Pattern. Built-in presets cannot be deleted.",
+      inputSchema: {
+        name: z.string().describe("Name of the pattern to delete"),
+      },
+      outputSchema: toolOutput({ deleted: patternNameSchema }),
+    },
+    traced(server, async ({ name }) => {
+      try {
+        await library.delete(name);
+        return toolResult(`Pattern deleted - ${name}`, { deleted: name });
+      } catch (e) {
+        return errorResult(e);
+      }
+    }),
+  );
+}
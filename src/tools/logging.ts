@@ -0,0 +1,41 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  type LoggingLevel,
+  SetLevelRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { type LogSink, addLogSink } from "../logger.js";
+import { onServerClose } from "./server.js";
+
+/**
+ * Forwards the server log to the client as MCP logging notifications, from
+ * `level` up until the client asks for another level with logging/setLevel.
+ */
+export function createLoggingNotifications(
+  server: McpServer,
+  level: LoggingLevel,
+) {
+  const sink: LogSink = {
+    level,
+    write: (entry) => {
+      if (!server.isConnected()) return;
+      server.server
+        .sendLoggingMessage({
+          level: entry.level,
+          logger: entry.component,
+          data: entry.data
+            ? { message: entry.message, ...entry.data }
+            : entry.message,
+        })
+        // Logging the failure would only try to send it again
+        .catch(() => {});
+    },
+  };
+
+  server.server.registerCapabilities({ logging: {} });
+  server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    sink.level = request.params.level;
+    return {};
+  });
+
+  onServerClose(server, addLogSink(sink));
+}
@@ -1,93 +1,351 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { type ButtplugClientDevice, ActuatorType } from "buttplug";
-import { SamNeoVersion } from "../main.js";
-
-export function createPistonTools(
-  server: McpServer,
-  device: ButtplugClientDevice,
-  deviceVersion: SamNeoVersion,
-) {
-  server.tool(
+import { SamNeoVersion, deviceParam } from "../device.js";
+import {
+  type Pattern,
+  type SessionManager,
+  describeLimits,
+  summarizeSession,
+} from "../sessions.js";
+import { type SessionPlan } from "../safety.js";
+import { type ActuatorLevels } from "../driver.js";
+import { InvalidInputError } from "../errors.js";
+import {
+  type Schedule,
+  type ScheduledStep,
+  mergeSchedules,
+} from "../scheduler.js";
+import {
+  describeWaveforms,
+  phaseOffsetParam,
+  seededRandom,
+  waveformSchedule,
+  waveformSchema,
+} from "../waveform.js";
+import { errorResult, sessionStartedOutput, toolResult } from "./results.js";
+import { traced } from "./simulator.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("PistonTool");
+
+export const pistonParams = {
+  duration: z
+    .number()
+    .min(1000)
+    .max(100000)
+    .describe(
+      "Total duration in milliseconds — the piston keeps thrusting, cycle after cycle, until it runs out.",
+    ),
+  steps: z
+    .number()
+    .min(20)
+    .max(1000)
+    .default(20)
+    .describe(
+      "Number of steps per thrust cycle — the more steps it takes, the more deliberate and indulgently drawn-out each motion becomes, oozing with a sticky, aching rhythm.",
+    ),
+  frequency: z
+    .number()
+    .min(0.1)
+    .max(4)
+    .default(1)
+    .describe("Thrust cycles per second at the start of the session"),
+  endFrequency: z
+    .number()
+    .min(0.1)
+    .max(4)
+    .optional()
+    .describe(
+      "Cycles per second at the end of the session; the tempo ramps from frequency to this (optional)",
+    ),
+  cycles: z
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .describe(
+      "Number of thrust cycles over the whole duration, at a steady tempo. Overrides frequency and endFrequency",
+    ),
+  profile: z
+    .enum(["up-down", "up-hold-down-hold"])
+    .default("up-down")
+    .describe(
+      "Shape of one cycle: up-down (push in, pull out) or up-hold-down-hold (pause at the top and bottom of each stroke)",
+    ),
+  depthVariation: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0)
+    .describe(
+      "Random variation of stroke depth per cycle (0 = every stroke full depth, 0.5 = down to half depth)",
+    ),
+  tempoVariation: z
+    .number()
+    .min(0)
+    .max(0.5)
+    .default(0)
+    .describe(
+      "Random variation of cycle length (0.2 = each cycle up to 20% shorter or longer)",
+    ),
+  seed: z
+    .number()
+    .int()
+    .optional()
+    .describe("Seed for the random variation, to replay the same session"),
+  vibrationPower: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0.5)
+    .describe("Vibration power."),
+  vibrationWaveform: waveformSchema
+    .optional()
+    .describe(
+      "Waveform for the vibration channel, replacing its default pattern",
+    ),
+  vacuumWaveform: waveformSchema
+    .optional()
+    .describe(
+      "Waveform for the vacuum channel (the piston motion on the original Sam Neo), replacing its default pattern",
+    ),
+  phaseOffset: phaseOffsetParam,
+};
+
+export type PistonParams = z.infer<z.ZodObject<typeof pistonParams>>;
+
+// Highest tempo, as for frequency, and most steps in one session
+const MAX_FREQUENCY = 4;
+const MAX_PISTON_STEPS = 100000;
+
+// Shortest a cycle may be, however much tempoVariation shortens it
+const MIN_CYCLE_MS = 1000 / MAX_FREQUENCY;
+
+/**
+ * Throws InvalidInputError for combinations the schema can't catch: cycles
+ * that come out faster than MAX_FREQUENCY, or more than MAX_PISTON_STEPS
+ * steps over the whole duration when every cycle is as short as
+ * tempoVariation can make it.
+ */
+export function checkPistonParams({
+  duration,
+  steps,
+  frequency,
+  endFrequency = frequency,
+  cycles,
+  tempoVariation,
+}: PistonParams): void {
+  if (cycles && (cycles * 1000) / duration > MAX_FREQUENCY) {
+    throw new InvalidInputError(
+      `${cycles} cycles in ${duration}ms is faster than ${MAX_FREQUENCY} cycles per second`,
+    );
+  }
+  const fastest = cycles
+    ? (cycles * 1000) / duration
+    : Math.max(frequency, endFrequency);
+  const shortest = Math.max(
+    MIN_CYCLE_MS,
+    (1000 / fastest) * (1 - tempoVariation),
+  );
+  const cycleCount = Math.ceil(duration / shortest);
+  if (steps * cycleCount > MAX_PISTON_STEPS) {
+    throw new InvalidInputError(
+      `up to ${cycleCount} cycles of ${steps} steps is more than ${MAX_PISTON_STEPS} steps, use fewer steps or cycles`,
+    );
+  }
+}
+
+export function pistonPlan({
+  duration,
+  vibrationPower,
+  vibrationWaveform,
+  vacuumWaveform,
+}: PistonParams): SessionPlan {
+  return {
+    vibration: vibrationWaveform?.max ?? vibrationPower,
+    vacuum: vacuumWaveform?.max,
+    duration,
+  };
+}
+
+// Motion level at a position (0..1) within one thrust cycle
+function stroke(profile: PistonParams["profile"], position: number): number {
+  if (profile === "up-hold-down-hold") {
+    // Quarters: up, hold at the top, down, hold at the bottom
+    if (position < 0.25) return position * 4;
+    if (position < 0.5) return 1;
+    if (position < 0.75) return 3 - position * 4;
+    return 0;
+  }
+  return position < 0.5 ? position * 2 : 2 - position * 2;
+}
+
+// The repeating motion, scaled by `scale`, with its cycle count
+function strokes(
+  channel: keyof ActuatorLevels,
+  scale: number,
+  {
+    duration,
+    steps,
+    frequency,
+    endFrequency = frequency,
+    cycles,
+    profile,
+    depthVariation,
+    tempoVariation,
+    seed,
+  }: PistonParams,
+): { schedule: Schedule; cycles: number } {
+  const rand = seededRandom(seed);
+  const startFrequency = cycles ? (cycles * 1000) / duration : frequency;
+  const finalFrequency = cycles ? startFrequency : endFrequency;
+
+  const scheduled: ScheduledStep[] = [];
+  let count = 0;
+  for (let start = 0; start < duration; count++) {
+    // Tempo ramps linearly across the session
+    const cycleFrequency =
+      startFrequency + (finalFrequency - startFrequency) * (start / duration);
+    const length = Math.max(
+      MIN_CYCLE_MS,
+      (1000 / cycleFrequency) * (1 + (rand() * 2 - 1) * tempoVariation),
+    );
+    const depth = 1 - depthVariation * rand();
+
+    for (let i = 0; i < steps; i++) {
+      const at = start + (length * i) / steps;
+      if (at >= duration) break;
+      scheduled.push({
+        at,
+        levels: { [channel]: depth * stroke(profile, i / steps) * scale },
+      });
+    }
+    start += length;
+  }
+  return { schedule: { steps: scheduled, duration }, cycles: count };
+}
+
+// The whole piston session, with the number of thrust cycles in it
+export function pistonSchedule(
+  params: PistonParams,
+  version: SamNeoVersion,
+): Schedule & { cycles: number } {
+  const {
+    duration,
+    vibrationPower,
+    vibrationWaveform,
+    vacuumWaveform,
+    phaseOffset,
+  } = params;
+
+  // Original Sam Neo: vibrationPower controls base vibration, the second
+  // vibrator gives the piston motion. Sam Neo 2 Series (Neo2/Neo2 Pro):
+  // single vibrator thrusting up to vibrationPower
+  const motion =
+    version === SamNeoVersion.ORIGINAL
+      ? strokes("vacuum", 1, params)
+      : strokes("vibration", vibrationPower, params);
+  const tracks: Partial<Record<keyof ActuatorLevels, Schedule>> =
+    version === SamNeoVersion.ORIGINAL
+      ? {
+          vibration: {
+            steps: [{ at: 0, levels: { vibration: vibrationPower } }],
+            duration,
+          },
+          vacuum: motion.schedule,
+        }
+      : { vibration: motion.schedule };
+  if (vibrationWaveform) {
+    tracks.vibration = waveformSchedule(
+      "vibration",
+      vibrationWaveform,
+      duration,
+    );
+  }
+  if (vacuumWaveform) {
+    tracks.vacuum = waveformSchedule(
+      "vacuum",
+      vacuumWaveform,
+      duration,
+      phaseOffset,
+    );
+  }
+
+  return {
+    ...mergeSchedules(...Object.values(tracks)),
+    cycles: motion.cycles,
+  };
+}
+
+export function pistonPattern(params: PistonParams): Pattern {
+  checkPistonParams(params);
+  const { duration, steps, vibrationPower, profile } = params;
+  return async (ctx) => {
+    const schedule = pistonSchedule(params, ctx.version);
+    log.debug("Starting piston", {
+      duration,
+      cycles: schedule.cycles,
+      steps,
+      profile,
+      device: ctx.version,
+    });
+    await ctx.play(schedule);
+
+    await ctx.stop();
+
+    log.debug("Piston completed", {
+      duration,
+      cycles: schedule.cycles,
+      device: ctx.version,
+    });
+    return `Piston motion completed - duration: ${duration}ms, cycles: ${schedule.cycles}, steps: ${steps}, profile: ${profile}, vibrationPower: ${vibrationPower}, device: ${ctx.version}`;
+  };
+}
+
+export function createPistonTools(server: McpServer, sessions: SessionManager) {
+  server.registerTool(
     "Svakom-Sam-Neo-Piston",
-    "A tool for operating the Svakom Sam Neo, a device that supports the Buttplug protocol. This tool allows the user to stimulate interactively. This tool allows the user to give piston motion.",
     {
-      duration: z
-        .number()
-        .min(1000)
-        .max(100000)
-        .describe(
-          "Thrust count (duration in ms) — the more frequent the thrusts, the more fervent and passionate the rhythm becomes, like a relentless desire that refuses to fade.",
-        ),
-      steps: z
-        .number()
-        .min(20)
-        .max(1000)
-        .default(20)
-        .describe(
-          "Number of steps per thrust — the more steps it takes, the more deliberate and indulgently drawn-out each motion becomes, oozing with a sticky, aching rhythm.",
-        ),
-      vibrationPower: z
-        .number()
-        .min(0)
-        .max(1)
-        .default(0.5)
-        .describe("Vibration power."),
+      description:
+        "A tool for operating the Svakom Sam Neo, a device that supports the Buttplug protocol. This tool allows the user to stimulate interactively. This tool allows the user to give piston motion: repeating thrust cycles for the whole duration, with an optional tempo ramp and random variation in depth and tempo.",
+      inputSchema: {
+        ...pistonParams,
+        device: deviceParam,
+      },
+      outputSchema: sessionStartedOutput,
     },
-
-    async ({ duration, steps, vibrationPower }) => {
+    traced(server, async (params) => {
+      const {
+        duration,
+        steps,
+        frequency,
+        endFrequency,
+        cycles,
+        profile,
+        vibrationPower,
+      } = params;
+      const tempo = cycles
+        ? `${cycles} cycles`
+        : `${frequency}Hz${endFrequency !== undefined ? ` to ${endFrequency}Hz` : ""}`;
       try {
-        const diff = 1 / steps;
-        const delay = duration / steps;
-
-        console.error(`[PistonTool] Device version: ${deviceVersion}`);
-
-        if (deviceVersion === SamNeoVersion.ORIGINAL) {
-          // Original Sam Neo: Use old vibrate API with 2 vibrators
-          for (let i = 0; i < steps; i++) {
-            const intensity = diff * i;
-            // vibrationPower controls base vibration, intensity controls piston motion
-            await device.vibrate([vibrationPower, intensity]);
-            await new Promise((resolve) => setTimeout(resolve, delay));
-          }
-        } else {
-          // Sam Neo 2 Series (Neo2/Neo2 Pro): Use scalar API with single vibrator
-          for (let i = 0; i < steps; i++) {
-            const intensity = diff * i;
-            await device.scalar([
-              {
-                Index: 0,
-                Scalar: intensity * vibrationPower,
-                ActuatorType: ActuatorType.Vibrate,
-              },
-            ]);
-            await new Promise((resolve) => setTimeout(resolve, delay));
-          }
-        }
-
-        await device.stop();
+        const session = await sessions.start(
+          "Svakom-Sam-Neo-Piston",
+          params,
+          pistonPattern(params),
+          params.device,
+          pistonPlan(params),
+        );
 
-        console.error(
-          `[PistonTool] Completed: duration=${duration}ms, steps=${steps}, vibrationPower=${vibrationPower}, device=${deviceVersion}`,
+        return toolResult(
+          `Piston motion started - session: ${session.id}, duration: ${duration}ms, tempo: ${tempo}, steps: ${steps}, profile: ${profile}, vibrationPower: ${vibrationPower}${describeWaveforms({ vibration: params.vibrationWaveform, vacuum: params.vacuumWaveform }, params.phaseOffset)}, device: ${session.device} (${session.version})${describeLimits(session)}`,
+          {
+            session: summarizeSession(session),
+          },
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Piston motion completed - duration: ${duration}ms, steps: ${steps}, vibrationPower: ${vibrationPower}, device: ${deviceVersion}`,
-            },
-          ],
-        };
       } catch (e) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error: ${e}`,
-            },
-          ],
-        };
+        return errorResult(e);
       }
-    },
+    }),
   );
 }
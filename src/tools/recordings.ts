@@ -0,0 +1,132 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { deviceParam } from "../device.js";
+import {
+  type Pattern,
+  type SessionManager,
+  describeLimits,
+  summarizeSession,
+} from "../sessions.js";
+import { type SessionPlan } from "../safety.js";
+import {
+  type Recording,
+  type RecordingSummary,
+  type SessionRecorder,
+  recordingNameSchema,
+  recordingSchedule,
+  recordingSummarySchema,
+} from "../recorder.js";
+import {
+  errorResult,
+  sessionStartedOutput,
+  toolOutput,
+  toolResult,
+} from "./results.js";
+import { traced } from "./simulator.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("ReplayTool");
+
+function describeRecording(recording: RecordingSummary): string {
+  return `${recording.name} - ${recording.tool} on ${recording.device.name} (${recording.device.version}), ${recording.status}, duration: ${recording.duration}ms, commands: ${recording.commandCount}, recorded: ${recording.recordedAt}`;
+}
+
+// Highest level each channel reaches, so limits can be reported up front
+export function replayPlan(recording: Recording): SessionPlan {
+  const plan = { vibration: 0, vacuum: 0, duration: recording.duration };
+  for (const { channel, level } of recording.commands) {
+    plan[channel] = Math.max(plan[channel], level);
+  }
+  return plan;
+}
+
+/**
+ * Sends the recorded commands at their recorded times. They already carry
+ * the ramps of the original session; the local level caps and slew rates
+ * still apply, like for any other pattern.
+ */
+export function replayPattern(name: string, recording: Recording): Pattern {
+  const schedule = recordingSchedule(recording);
+
+  return async (ctx) => {
+    log.debug("Starting replay", {
+      recording: name,
+      commands: recording.commands.length,
+      duration: recording.duration,
+      device: ctx.version,
+    });
+
+    await ctx.play(schedule);
+
+    // Stop both actuators, in case the recording ended with them running
+    await ctx.setLevels({ vibration: 0, vacuum: 0 });
+
+    log.debug("Replay completed", { recording: name, device: ctx.version });
+    return `Replay completed - recording: ${name}, commands: ${recording.commands.length}, duration: ${recording.duration}ms, recorded on: ${recording.device.version}, device: ${ctx.version}`;
+  };
+}
+
+export function createRecordingTools(
+  server: McpServer,
+  recorder: SessionRecorder,
+  sessions: SessionManager,
+) {
+  server.registerTool(
+    "Svakom-Sam-Neo-Recordings",
+    {
+      description:
+        "Lists the session recordings on this machine, newest first. Sessions are recorded when the server runs with recordSessions on; any recording can be played back with Svakom-Sam-Neo-Replay.",
+      outputSchema: toolOutput({ recordings: z.array(recordingSummarySchema) }),
+    },
+    traced(server, async () => {
+      try {
+        const recordings = await recorder.list();
+        return toolResult(
+          recordings.length > 0
+            ? recordings.map(describeRecording).join("\n")
+            : "No recordings",
+          { recordings },
+        );
+      } catch (e) {
+        return errorResult(e);
+      }
+    }),
+  );
+
+  server.registerTool(
+    "Svakom-Sam-Neo-Replay",
+    {
+      description:
+        "Plays back a session recording as a background session, sending every recorded vibration and vacuum level at the time it was originally sent. Works on both the original Sam Neo and the Sam Neo 2 series, whichever version the recording was made on.",
+      inputSchema: {
+        recording: recordingNameSchema,
+        device: deviceParam,
+      },
+      outputSchema: sessionStartedOutput,
+    },
+    traced(server, async ({ recording: name, device }) => {
+      try {
+        const recording = await recorder.load(name);
+
+        const session = await sessions.start(
+          "Svakom-Sam-Neo-Replay",
+          { recording: name },
+          replayPattern(name, recording),
+          device,
+          replayPlan(recording),
+        );
+        const recordedOn =
+          recording.device.version !== session.version
+            ? `, recorded on: ${recording.device.version}`
+            : "";
+
+        return toolResult(
+          `Replay started - session: ${session.id}, recording: ${name} (${recording.tool}), commands: ${recording.commands.length}, duration: ${recording.duration}ms${recordedOn}, device: ${session.device} (${session.version})${describeLimits(session)}`,
+          { session: summarizeSession(session) },
+        );
+      } catch (e) {
+        return errorResult(e);
+      }
+    }),
+  );
+}
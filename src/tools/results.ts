@@ -0,0 +1,76 @@
+import { type CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { SamNeoVersion } from "../device.js";
+import { type SamNeoDriver } from "../driver.js";
+import { errorCategory, errorCategorySchema } from "../errors.js";
+import { sessionSummarySchema } from "../sessions.js";
+
+// structuredContent of every failed tool call
+export const toolErrorSchema = z.object({
+  category: errorCategorySchema,
+  message: z.string(),
+});
+
+/**
+ * Output schema of a tool. Clients validate the structuredContent of failed
+ * calls too, so a result has either the fields of a successful call or just
+ * `error`.
+ */
+export function toolOutput<Shape extends z.ZodRawShape>(shape: Shape) {
+  return {
+    ...z.object(shape).partial().shape,
+    error: toolErrorSchema
+      .optional()
+      .describe("Why the call failed; only set when isError is"),
+  };
+}
+
+// Output of every tool that starts a session
+export const sessionStartedOutput = toolOutput({
+  session: sessionSummarySchema.describe(
+    "The session as it started; poll Svakom-Sam-Neo-Session-Status for its progress and final result",
+  ),
+});
+
+export const deviceOutputSchema = z.object({
+  index: z.number(),
+  name: z.string(),
+  version: z.nativeEnum(SamNeoVersion),
+  commandPath: z
+    .string()
+    .describe('Command path used for suction, e.g. "Constrict@1"'),
+});
+
+export function deviceOutput(
+  driver: SamNeoDriver,
+): z.infer<typeof deviceOutputSchema> {
+  return {
+    index: driver.device.index,
+    name: driver.device.name,
+    version: driver.version,
+    commandPath: driver.vacuumMethod,
+  };
+}
+
+export function toolResult(
+  text: string,
+  structuredContent: Record<string, unknown>,
+): CallToolResult {
+  return { content: [{ type: "text", text }], structuredContent };
+}
+
+/**
+ * A failed tool call: `isError` set, the text ("Error: ..." by default) and
+ * the category in structuredContent so clients can react without parsing.
+ */
+export function errorResult(e: unknown, text = `Error: ${e}`): CallToolResult {
+  const error: z.infer<typeof toolErrorSchema> = {
+    category: errorCategory(e),
+    message: e instanceof Error ? e.message : `${e}`,
+  };
+  return {
+    isError: true,
+    content: [{ type: "text", text }],
+    structuredContent: { error },
+  };
+}
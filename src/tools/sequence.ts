@@ -0,0 +1,269 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { type SamNeoVersion, deviceParam } from "../device.js";
+import { InvalidInputError } from "../errors.js";
+import { type ActuatorLevels } from "../driver.js";
+import {
+  type Pattern,
+  type SessionManager,
+  describeLimits,
+  summarizeSession,
+} from "../sessions.js";
+import { type SessionPlan } from "../safety.js";
+import { type Schedule, ScheduleBuilder } from "../scheduler.js";
+import { type DeviceStateTracker } from "../state.js";
+import {
+  checkPistonParams,
+  pistonParams,
+  pistonPlan,
+  pistonSchedule,
+} from "./piston.js";
+import { vacuumParams, vacuumPlan, vacuumSchedule } from "./vacuum.js";
+import { comboParams, comboPlan, comboSchedule } from "./combo.js";
+import {
+  extendedOParams,
+  extendedOPlan,
+  extendedOSchedule,
+  resolveExtendedO,
+} from "./extendedO.js";
+import { errorResult, sessionStartedOutput, toolResult } from "./results.js";
+import { traced } from "./simulator.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("SequenceTool");
+
+// Longest program a sequence may unroll to, counting loop repeats
+const MAX_SEQUENCE_STEPS = 500;
+
+// Limits of the whole program: level changes scheduled and total length
+const MAX_SEQUENCE_COMMANDS = 100000;
+const MAX_SEQUENCE_DURATION = 60 * 60 * 1000;
+
+const crossfadeParam = z
+  .number()
+  .min(0)
+  .max(10000)
+  .default(0)
+  .describe(
+    "Milliseconds to blend from the previous step into this one; the two overlap for this long (0 = straight cut)",
+  );
+
+const toolStepSchema = z.discriminatedUnion("tool", [
+  z.object({
+    tool: z.literal("piston"),
+    params: z.object(pistonParams).describe("Svakom-Sam-Neo-Piston parameters"),
+    crossfade: crossfadeParam,
+  }),
+  z.object({
+    tool: z.literal("vacuum"),
+    params: z
+      .object(vacuumParams)
+      .default({})
+      .describe("Svakom-Sam-Neo-Vacuum parameters"),
+    crossfade: crossfadeParam,
+  }),
+  z.object({
+    tool: z.literal("combo"),
+    params: z.object(comboParams).describe("Svakom-Sam-Neo-Combo parameters"),
+    crossfade: crossfadeParam,
+  }),
+  z.object({
+    tool: z.literal("extendedO"),
+    params: z
+      .object(extendedOParams)
+      .default({})
+      .describe(
+        "Svakom-Sam-Neo-ExtendedO parameters. currentVibration/currentVacuum default to where the previous step left off",
+      ),
+    crossfade: crossfadeParam,
+  }),
+]);
+
+type ToolStep = z.infer<typeof toolStepSchema>;
+
+const loopStepSchema = z.object({
+  repeat: z.number().int().min(1).max(100).describe("How many times to play"),
+  steps: z.array(toolStepSchema).min(1).max(50).describe("Steps to repeat"),
+});
+
+const sequenceStepSchema = z.union([toolStepSchema, loopStepSchema]);
+
+type SequenceStep = z.infer<typeof sequenceStepSchema>;
+
+// Loops unrolled into the steps actually played
+function unroll(steps: SequenceStep[]): ToolStep[] {
+  return steps.flatMap((step) =>
+    "repeat" in step
+      ? Array.from({ length: step.repeat }, () => step.steps).flat()
+      : [step],
+  );
+}
+
+// A step's schedule; `current` is where the program stands when it starts
+function stepSchedule(
+  step: ToolStep,
+  version: SamNeoVersion,
+  current: Required<ActuatorLevels>,
+): Schedule {
+  switch (step.tool) {
+    case "piston":
+      checkPistonParams(step.params);
+      return pistonSchedule(step.params, version);
+    case "vacuum":
+      return vacuumSchedule(step.params);
+    case "combo":
+      return comboSchedule(step.params, version);
+    case "extendedO":
+      return extendedOSchedule(resolveExtendedO(step.params, current));
+  }
+}
+
+function stepPlan(
+  step: ToolStep,
+  current: Required<ActuatorLevels>,
+): SessionPlan {
+  switch (step.tool) {
+    case "piston":
+      return pistonPlan(step.params);
+    case "vacuum":
+      return vacuumPlan(step.params);
+    case "combo":
+      return comboPlan(step.params);
+    case "extendedO":
+      return extendedOPlan(resolveExtendedO(step.params, current));
+  }
+}
+
+// Peak levels and total length of the whole program, to report limits
+function sequencePlan(
+  steps: ToolStep[],
+  current: Required<ActuatorLevels>,
+): SessionPlan {
+  const plans = steps.map((step) => stepPlan(step, current));
+  const peak = (channel: keyof ActuatorLevels) => {
+    const levels = plans
+      .map((plan) => plan[channel])
+      .filter((level) => level !== undefined);
+    return levels.length > 0 ? Math.max(...levels) : undefined;
+  };
+  return {
+    vibration: peak("vibration"),
+    vacuum: peak("vacuum"),
+    duration: plans.reduce(
+      (total, plan, i) =>
+        total + (plan.duration ?? 0) - (i > 0 ? steps[i].crossfade : 0),
+      0,
+    ),
+  };
+}
+
+/**
+ * The whole program on one clock, with no stop or zeroing between steps.
+ * Throws once it grows past MAX_SEQUENCE_COMMANDS, before building the rest.
+ */
+function sequenceProgram(
+  steps: ToolStep[],
+  version: SamNeoVersion,
+  initial: Required<ActuatorLevels>,
+): Schedule {
+  const program = new ScheduleBuilder();
+  for (const step of steps) {
+    const current = { ...initial, ...program.levels };
+    program.append(stepSchedule(step, version, current), step.crossfade);
+    if (program.length > MAX_SEQUENCE_COMMANDS) {
+      throw new InvalidInputError(
+        `Sequence schedules more than ${MAX_SEQUENCE_COMMANDS} level changes, use fewer or shorter steps`,
+      );
+    }
+  }
+  return program.schedule;
+}
+
+function sequencePattern(steps: ToolStep[], program: Schedule): Pattern {
+  return async (ctx) => {
+    log.debug("Starting sequence", {
+      steps: steps.length,
+      duration: Math.round(program.duration),
+      commands: program.steps.length,
+      device: ctx.version,
+    });
+
+    await ctx.play(program);
+
+    // Stop both actuators
+    await ctx.setLevels({ vibration: 0, vacuum: 0 });
+
+    log.debug("Sequence completed", {
+      steps: steps.length,
+      duration: Math.round(program.duration),
+      device: ctx.version,
+    });
+    return `Sequence completed - steps: ${steps.length}, duration: ${Math.round(program.duration)}ms, device: ${ctx.version}`;
+  };
+}
+
+export function createSequenceTools(
+  server: McpServer,
+  tracker: DeviceStateTracker,
+  sessions: SessionManager,
+) {
+  server.registerTool(
+    "Svakom-Sam-Neo-Sequence",
+    {
+      description:
+        "Chains Piston, Vacuum, Combo and ExtendedO configurations into one continuous program that plays as a single background session. Steps follow each other without stopping or zeroing the device in between, can crossfade into each other, and can be grouped into loops with a repeat count.",
+      inputSchema: {
+        steps: z
+          .array(sequenceStepSchema)
+          .min(1)
+          .max(50)
+          .describe(
+            'Steps in order. A step is {"tool": "piston" | "vacuum" | "combo" | "extendedO", "params": {...}, "crossfade": ms}, or a loop {"repeat": n, "steps": [...]} of such steps',
+          ),
+        device: deviceParam,
+      },
+      outputSchema: sessionStartedOutput,
+    },
+    traced(server, async ({ steps, device }) => {
+      try {
+        const unrolled = unroll(steps);
+        if (unrolled.length > MAX_SEQUENCE_STEPS) {
+          throw new InvalidInputError(
+            `Sequence unrolls to ${unrolled.length} steps, at most ${MAX_SEQUENCE_STEPS} are allowed`,
+          );
+        }
+
+        // Read before starting: starting cancels whatever is playing now
+        const initial = tracker.levels(device);
+        const plan = sequencePlan(unrolled, initial);
+        if ((plan.duration ?? 0) > MAX_SEQUENCE_DURATION) {
+          throw new InvalidInputError(
+            `Sequence runs for ${plan.duration}ms, at most ${MAX_SEQUENCE_DURATION}ms is allowed`,
+          );
+        }
+        const program = sequenceProgram(
+          unrolled,
+          tracker.version(device),
+          initial,
+        );
+
+        const session = await sessions.start(
+          "Svakom-Sam-Neo-Sequence",
+          { steps },
+          sequencePattern(unrolled, program),
+          device,
+          plan,
+        );
+
+        return toolResult(
+          `Sequence started - session: ${session.id}, steps: ${unrolled.length}, duration: about ${plan.duration}ms, device: ${session.device} (${session.version})${describeLimits(session)}`,
+          {
+            session: summarizeSession(session),
+          },
+        );
+      } catch (e) {
+        return errorResult(e);
+      }
+    }),
+  );
+}
@@ -0,0 +1,14 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+/**
+ * Runs `fn` when the client of `server` goes away, after whatever was hooked
+ * before it. connect() takes over the transport's onclose, so this hooks the
+ * server's.
+ */
+export function onServerClose(server: McpServer, fn: () => void): void {
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    onclose?.();
+    fn();
+  };
+}
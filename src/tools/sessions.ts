@@ -0,0 +1,99 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  type SessionManager,
+  SessionNotFoundError,
+  describeSession,
+  sessionSummarySchema,
+  summarizeSession,
+} from "../sessions.js";
+import { errorResult, toolOutput, toolResult } from "./results.js";
+import { traced } from "./simulator.js";
+
+export function createSessionTools(
+  server: McpServer,
+  sessions: SessionManager,
+) {
+  server.registerTool(
+    "Svakom-Sam-Neo-Sessions",
+    {
+      description:
+        "Lists the pattern sessions started by the Svakom Sam Neo tools. Patterns run in the background, so use this to see what is currently playing.",
+      inputSchema: {
+        includeFinished: z
+          .boolean()
+          .default(false)
+          .describe(
+            "Also list recently completed, cancelled or failed sessions",
+          ),
+      },
+      outputSchema: toolOutput({ sessions: z.array(sessionSummarySchema) }),
+    },
+    traced(server, async ({ includeFinished }) => {
+      const list = sessions.list(includeFinished);
+      return toolResult(
+        list.length === 0
+          ? "No active sessions"
+          : list.map(describeSession).join("\n"),
+        { sessions: list.map(summarizeSession) },
+      );
+    }),
+  );
+
+  server.registerTool(
+    "Svakom-Sam-Neo-Session-Status",
+    {
+      description:
+        "Reports the progress of a pattern session: status, elapsed time, current step and the current vibration and vacuum levels.",
+      inputSchema: {
+        sessionId: z
+          .string()
+          .describe("Session id returned when the pattern started"),
+      },
+      outputSchema: toolOutput({ session: sessionSummarySchema }),
+    },
+    traced(server, async ({ sessionId }) => {
+      const session = sessions.get(sessionId);
+      if (!session) return errorResult(new SessionNotFoundError(sessionId));
+      return toolResult(describeSession(session), {
+        session: summarizeSession(session),
+      });
+    }),
+  );
+
+  server.registerTool(
+    "Svakom-Sam-Neo-Session-Cancel",
+    {
+      description:
+        "Cancels a running pattern session and brings vibration and vacuum back to zero.",
+      inputSchema: {
+        sessionId: z
+          .string()
+          .describe("Session id returned when the pattern started"),
+      },
+      outputSchema: toolOutput({
+        cancelled: z
+          .boolean()
+          .describe("False when the session wasn't running anymore"),
+        session: sessionSummarySchema,
+      }),
+    },
+    traced(server, async ({ sessionId }) => {
+      try {
+        const cancelled = await sessions.cancel(sessionId);
+        const session = sessions.get(sessionId);
+        return toolResult(
+          cancelled
+            ? `Session cancelled - ${session ? describeSession(session) : sessionId}`
+            : `Session is not running: ${sessionId}`,
+          {
+            cancelled,
+            session: session && summarizeSession(session),
+          },
+        );
+      } catch (e) {
+        return errorResult(e);
+      }
+    }),
+  );
+}
@@ -0,0 +1,67 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { type CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { type CommandTrace, type TraceEntry } from "../simulator.js";
+import { toolOutput, toolResult } from "./results.js";
+
+interface TraceReader {
+  trace: CommandTrace;
+  // Commands recorded since this client's previous tool result
+  take: () => TraceEntry[];
+}
+
+// Set for every server in simulation mode, each with its own cursor
+const traceReaders = new WeakMap<McpServer, TraceReader>();
+
+/**
+ * Wraps a tool callback of `server`. In simulation mode the result ends with
+ * the commands recorded since the previous tool result this client got;
+ * otherwise it's passed through as it is.
+ */
+export function traced<Args extends unknown[]>(
+  server: McpServer,
+  callback: (...args: Args) => Promise<CallToolResult>,
+): (...args: Args) => Promise<CallToolResult> {
+  return async (...args) => {
+    const result = await callback(...args);
+    const reader = traceReaders.get(server);
+    if (!reader) return result;
+    return {
+      ...result,
+      content: [
+        ...result.content,
+        { type: "text", text: reader.trace.format(reader.take()) },
+      ],
+    };
+  };
+}
+
+/**
+ * Simulation mode only. Registers Svakom-Sam-Neo-Simulator-Trace and turns
+ * on the trace that tools wrapped with traced() append to their results.
+ */
+export function createSimulatorTools(server: McpServer, trace: CommandTrace) {
+  server.registerTool(
+    "Svakom-Sam-Neo-Simulator-Trace",
+    {
+      description:
+        "Simulation mode: returns the full timestamped log of commands the simulated Sam Neo devices have received so far.",
+      outputSchema: toolOutput({
+        commands: z.array(
+          z.object({
+            at: z.number().describe("Milliseconds since the simulator started"),
+            device: z.string(),
+            command: z.enum(["vibrate", "scalar", "linear", "stop"]),
+            args: z.unknown(),
+          }),
+        ),
+      }),
+    },
+    async () => {
+      const commands = trace.all();
+      return toolResult(trace.format(commands), { commands });
+    },
+  );
+
+  traceReaders.set(server, { trace, take: trace.reader() });
+}
@@ -0,0 +1,60 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { type DeviceStateTracker } from "../state.js";
+import { onServerClose } from "./server.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("State");
+
+const STATE_URI = "samneo://state";
+
+export function createStateResources(
+  server: McpServer,
+  tracker: DeviceStateTracker,
+) {
+  server.resource(
+    "Device state",
+    STATE_URI,
+    {
+      description:
+        "Live state of every connected Sam Neo: last vibration/vacuum levels sent, the tool currently driving it, detected version and capabilities. Subscribe to get notified when it changes",
+      mimeType: "application/json",
+    },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(tracker.snapshot(), null, 2),
+        },
+      ],
+    }),
+  );
+
+  // McpServer has no subscription support of its own, so wire it up on the
+  // underlying server
+  const subscriptions = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const onChange = () => {
+    if (!subscriptions.has(STATE_URI)) return;
+    server.server.sendResourceUpdated({ uri: STATE_URI }).catch((e) => {
+      log.warning("Failed to send resource update", { error: e });
+    });
+  };
+  tracker.on("change", onChange);
+
+  // HTTP clients each get a server of their own; stop notifying a closed one
+  onServerClose(server, () => tracker.off("change", onChange));
+}
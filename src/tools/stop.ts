@@ -0,0 +1,114 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { deviceParam } from "../device.js";
+import { type ConnectionManager } from "../connection.js";
+import { type SamNeoDriver } from "../driver.js";
+import {
+  type SessionManager,
+  sessionSummarySchema,
+  summarizeSession,
+} from "../sessions.js";
+import {
+  deviceOutput,
+  deviceOutputSchema,
+  errorResult,
+  toolOutput,
+  toolResult,
+} from "./results.js";
+import { traced } from "./simulator.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("StopTool");
+
+export function createStopTools(
+  server: McpServer,
+  connection: ConnectionManager,
+  sessions: SessionManager,
+) {
+  server.registerTool(
+    "Svakom-Sam-Neo-Stop",
+    {
+      description:
+        "Emergency stop for the Svakom Sam Neo. Immediately interrupts every running pattern and brings both vibration and vacuum/suction to zero on every connected device (or only the given one). Use this whenever the user asks to stop.",
+      inputSchema: {
+        device: deviceParam,
+      },
+      outputSchema: toolOutput({
+        stopped: z
+          .array(sessionSummarySchema)
+          .describe("Sessions the stop interrupted"),
+        devices: z
+          .array(deviceOutputSchema)
+          .describe("Devices set to zero and stopped"),
+      }),
+    },
+    traced(server, async ({ device }) => {
+      // Never let a bad selector stand in the way of stopping: an unknown
+      // device falls back to stopping everything
+      let target: SamNeoDriver | undefined;
+      if (device !== undefined) {
+        try {
+          target = connection.requireDriver(device);
+        } catch (e) {
+          log.warning("Unknown device, stopping all devices", {
+            device,
+            error: e,
+          });
+        }
+      }
+      const drivers = target ? [target] : connection.devices;
+
+      // Abort the patterns first so nothing sends a new level after the zero
+      const stopped = await sessions.stopAll(target?.device.index);
+      const failures: string[] = [];
+      let firstFailure: unknown;
+
+      for (const driver of drivers) {
+        try {
+          await driver.setLevels(
+            { vibration: 0, vacuum: 0 },
+            { instant: true },
+          );
+        } catch (e) {
+          failures.push(`${driver.device.name} zero levels: ${e}`);
+          firstFailure ??= e;
+        }
+
+        try {
+          await driver.stop();
+        } catch (e) {
+          failures.push(`${driver.device.name} stop device: ${e}`);
+          firstFailure ??= e;
+        }
+      }
+
+      const stoppedDevices =
+        drivers.length === 0
+          ? "no device connected"
+          : `vibration and vacuum set to 0 on ${drivers.map((driver) => `${driver.device.name} (${driver.version})`).join(", ")}`;
+
+      log[failures.length > 0 ? "error" : "warning"]("Emergency stop", {
+        sessions: stopped.length,
+        devices: stoppedDevices,
+        failures: failures.length > 0 ? failures : undefined,
+      });
+
+      const interrupted =
+        stopped.length === 0
+          ? "no pattern was running"
+          : `stopped ${stopped.map((session) => `${session.tool} (${session.id})`).join(", ")}`;
+
+      if (failures.length > 0) {
+        // Categorized by the first failure, usually a lost device
+        return errorResult(
+          new Error(failures.join("; "), { cause: firstFailure }),
+          `Emergency stop incomplete - ${interrupted}. Error: ${failures.join("; ")}`,
+        );
+      }
+      return toolResult(`Emergency stop - ${interrupted}, ${stoppedDevices}`, {
+        stopped: stopped.map(summarizeSession),
+        devices: drivers.map(deviceOutput),
+      });
+    }),
+  );
+}
@@ -0,0 +1,96 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { deviceParam } from "../device.js";
+import {
+  type Pattern,
+  type SessionManager,
+  describeLimits,
+  summarizeSession,
+} from "../sessions.js";
+import {
+  type Timeline,
+  scheduleSamples,
+  sampleTimeline,
+  timelineDuration,
+  timelinePlan,
+  timelineSchema,
+} from "../timeline.js";
+import { errorResult, sessionStartedOutput, toolResult } from "./results.js";
+import { traced } from "./simulator.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("TimelineTool");
+
+export const timelineParams = {
+  timeline: timelineSchema,
+};
+
+function timelineChannels(timeline: Timeline): string {
+  return [
+    ...(timeline.vibration ? ["vibration"] : []),
+    ...(timeline.vacuum ? ["vacuum"] : []),
+  ].join(" + ");
+}
+
+export function timelinePattern({ timeline }: { timeline: Timeline }): Pattern {
+  const samples = sampleTimeline(timeline);
+  const duration = timelineDuration(timeline);
+  const channels = timelineChannels(timeline);
+
+  return async (ctx) => {
+    log.debug("Starting timeline", {
+      duration,
+      samples: samples.length,
+      channels,
+      device: ctx.version,
+    });
+
+    await ctx.play(scheduleSamples(samples));
+
+    // Stop both actuators
+    await ctx.setLevels({ vibration: 0, vacuum: 0 });
+
+    log.debug("Timeline completed", { duration, device: ctx.version });
+    return `Timeline completed - duration: ${duration}ms, channels: ${channels}, device: ${ctx.version}`;
+  };
+}
+
+export function createTimelineTools(
+  server: McpServer,
+  sessions: SessionManager,
+) {
+  server.registerTool(
+    "Svakom-Sam-Neo-Timeline",
+    {
+      description:
+        "Plays an arbitrary program on the Svakom Sam Neo described as keyframes per channel (vibration, vacuum). Each keyframe has a time in ms, a target level and an easing curve (linear, ease-in, ease-out, ease-in-out, step, sine), so any shape can be written instead of picking a preset. Works on both the original Sam Neo and the Sam Neo 2 series.",
+      inputSchema: {
+        ...timelineParams,
+        device: deviceParam,
+      },
+      outputSchema: sessionStartedOutput,
+    },
+    traced(server, async (params) => {
+      const { timeline } = params;
+      try {
+        const duration = timelineDuration(timeline);
+
+        const session = await sessions.start(
+          "Svakom-Sam-Neo-Timeline",
+          params,
+          timelinePattern(params),
+          params.device,
+          timelinePlan(timeline),
+        );
+
+        return toolResult(
+          `Timeline started - session: ${session.id}, duration: ${duration}ms, channels: ${timelineChannels(timeline)}, samples: ${sampleTimeline(timeline).length}, device: ${session.device} (${session.version})${describeLimits(session)}`,
+          {
+            session: summarizeSession(session),
+          },
+        );
+      } catch (e) {
+        return errorResult(e);
+      }
+    }),
+  );
+}
@@ -0,0 +1,193 @@
+import { z } from "zod";
+import { type ActuatorLevels } from "./driver.js";
+import { type Schedule } from "./scheduler.js";
+import { type TimelineSample, scheduleSamples } from "./timeline.js";
+
+// Interval between the levels sampled from a waveform
+const WAVEFORM_RESOLUTION_MS = 50;
+
+export const waveformShapeSchema = z
+  .enum(["sine", "triangle", "sawtooth", "square", "random-walk", "noise"])
+  .describe(
+    "Shape of one cycle: sine, triangle, sawtooth (ramp up, drop), square (on for dutyCycle of the cycle), random-walk (wanders up and down by a random step every cycle) or noise (smoothed random level every cycle)",
+  );
+
+export const waveformSchema = z
+  .object({
+    shape: waveformShapeSchema,
+    frequency: z
+      .number()
+      .min(0.01)
+      .max(4)
+      .default(0.5)
+      .describe("Cycles per second (0.01 to 4)"),
+    min: z
+      .number()
+      .min(0)
+      .max(1)
+      .default(0)
+      .describe("Level at the bottom of the wave (0.0 to 1.0)"),
+    max: z
+      .number()
+      .min(0)
+      .max(1)
+      .default(1)
+      .describe("Level at the top of the wave (0.0 to 1.0)"),
+    phase: z
+      .number()
+      .min(0)
+      .max(1)
+      .default(0)
+      .describe(
+        "Where in the cycle the wave starts, as a fraction of a cycle (0.25 = a quarter cycle in)",
+      ),
+    dutyCycle: z
+      .number()
+      .min(0.05)
+      .max(0.95)
+      .default(0.5)
+      .describe("Fraction of each cycle spent at max (square only)"),
+    seed: z
+      .number()
+      .int()
+      .optional()
+      .describe(
+        "Seed for random-walk and noise, to replay the same wave (random when omitted)",
+      ),
+  })
+  .refine((waveform) => waveform.min <= waveform.max, {
+    message: "min must not be above max",
+  });
+
+export type Waveform = z.infer<typeof waveformSchema>;
+
+export const phaseOffsetParam = z
+  .number()
+  .min(0)
+  .max(1)
+  .default(0)
+  .describe(
+    "Phase of the vacuum waveform relative to the vibration waveform, as a fraction of a cycle (0.5 = opposite)",
+  );
+
+// Small deterministic PRNG (mulberry32), so a seed replays the same wave
+export function seededRandom(
+  seed = Math.floor(Math.random() * 2 ** 32),
+): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Random points, one per cycle boundary, generated as far as they're needed
+function randomPoints(
+  seed: number | undefined,
+  next: (previous: number, rand: () => number) => number,
+): (k: number) => number {
+  const rand = seededRandom(seed);
+  const points = [next(0.5, rand)];
+  return (k) => {
+    while (points.length <= k) {
+      points.push(next(points[points.length - 1], rand));
+    }
+    return points[k];
+  };
+}
+
+/**
+ * Level of a waveform over time. `cycles` is the position in cycles from the
+ * start (time × frequency + phase); every shape maps it to 0..1, which is
+ * then scaled to min..max.
+ */
+export function waveformLevels(
+  waveform: Waveform,
+  phaseOffset = 0,
+): (ms: number) => number {
+  const seed = waveform.seed;
+  let unit: (cycles: number) => number;
+
+  switch (waveform.shape) {
+    case "sine":
+      // Starts at min, like the other shapes
+      unit = (cycles) => 0.5 - 0.5 * Math.cos(2 * Math.PI * cycles);
+      break;
+    case "triangle":
+      unit = (cycles) => {
+        const position = cycles % 1;
+        return position < 0.5 ? position * 2 : 2 - position * 2;
+      };
+      break;
+    case "sawtooth":
+      unit = (cycles) => cycles % 1;
+      break;
+    case "square":
+      unit = (cycles) => (cycles % 1 < waveform.dutyCycle ? 1 : 0);
+      break;
+    case "random-walk": {
+      // Each cycle moves up to a quarter of the range, straight lines between
+      const point = randomPoints(seed, (previous, rand) =>
+        Math.min(1, Math.max(0, previous + (rand() - 0.5) * 0.5)),
+      );
+      unit = (cycles) => {
+        const k = Math.floor(cycles);
+        const position = cycles - k;
+        return point(k) + (point(k + 1) - point(k)) * position;
+      };
+      break;
+    }
+    case "noise": {
+      // A fresh random level every cycle, eased into with smoothstep
+      const point = randomPoints(seed, (_, rand) => rand());
+      unit = (cycles) => {
+        const k = Math.floor(cycles);
+        const position = cycles - k;
+        const eased = position * position * (3 - 2 * position);
+        return point(k) + (point(k + 1) - point(k)) * eased;
+      };
+      break;
+    }
+  }
+
+  const phase = (waveform.phase + phaseOffset) % 1;
+  return (ms) =>
+    waveform.min +
+    (waveform.max - waveform.min) *
+      unit((ms / 1000) * waveform.frequency + phase);
+}
+
+// Drives one channel with a waveform for `duration` ms
+export function waveformSchedule(
+  channel: keyof ActuatorLevels,
+  waveform: Waveform,
+  duration: number,
+  phaseOffset = 0,
+): Schedule {
+  const level = waveformLevels(waveform, phaseOffset);
+  const samples: TimelineSample[] = [];
+  for (let at = 0; at < duration; at += WAVEFORM_RESOLUTION_MS) {
+    samples.push({ at, levels: { [channel]: level(at) } });
+  }
+  return { ...scheduleSamples(samples), duration };
+}
+
+// Suffix for tool results, e.g. ", vibration waveform: sine 0.5Hz 0-1"
+export function describeWaveforms(
+  waveforms: Partial<Record<keyof ActuatorLevels, Waveform>>,
+  phaseOffset = 0,
+): string {
+  const parts = Object.entries(waveforms)
+    .filter(([, waveform]) => waveform !== undefined)
+    .map(
+      ([channel, waveform]) =>
+        `, ${channel} waveform: ${waveform.shape} ${waveform.frequency}Hz ${waveform.min}-${waveform.max}`,
+    );
+  if (waveforms.vibration && waveforms.vacuum && phaseOffset > 0) {
+    parts.push(`, phase offset: ${phaseOffset}`);
+  }
+  return parts.join("");
+}
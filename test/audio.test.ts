@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  analyzeAudio,
+  audioSamples,
+  bandLevels,
+  parseWav,
+  pcmAudio,
+} from "../src/audio.js";
+import { RATE, silence, tone, wav } from "./support/audio.js";
+
+describe("parseWav", () => {
+  it("reads the format and the interleaved samples", () => {
+    const audio = parseWav(
+      wav([
+        [0.5, -0.5],
+        [0.25, 0],
+      ]),
+    );
+    assert.equal(audio.sampleRate, RATE);
+    assert.equal(audio.channels, 2);
+    assert.equal(audio.encoding, "s16le");
+    assert.equal(audio.frames, 2);
+    assert.ok(Math.abs(audio.sample(0, 0) - 0.5) < 1e-3);
+    assert.ok(Math.abs(audio.sample(1, 0) + 0.5) < 1e-3);
+    assert.ok(Math.abs(audio.sample(0, 1) - 0.25) < 1e-3);
+  });
+
+  it("rejects files that aren't PCM or float WAV", () => {
+    const compressed = wav([[0, 0]]);
+    compressed.writeUInt16LE(2, 20);
+    assert.throws(() => parseWav(compressed), /Unsupported WAV encoding/);
+    assert.throws(() => parseWav(Buffer.from("not audio")), /Not a WAV/);
+  });
+});
+
+describe("pcmAudio", () => {
+  it("decodes raw unsigned 8-bit and float samples", () => {
+    const u8 = pcmAudio(Buffer.from([128, 255, 0]), {
+      sampleRate: RATE,
+      channels: 1,
+      encoding: "u8",
+    });
+    assert.equal(u8.frames, 3);
+    assert.deepEqual(
+      [0, 1, 2].map((frame) => u8.sample(frame, 0)),
+      [0, 127 / 128, -1],
+    );
+
+    const float = Buffer.alloc(8);
+    float.writeFloatLE(0.5, 0);
+    float.writeFloatLE(-0.25, 4);
+    const f32 = pcmAudio(float, {
+      sampleRate: RATE,
+      channels: 2,
+      encoding: "f32le",
+    });
+    assert.equal(f32.frames, 1);
+    assert.equal(f32.sample(0, 1), -0.25);
+  });
+});
+
+describe("analyzeAudio", () => {
+  it("separates bass, mids and treble", () => {
+    const loudest = (samples: number[]) => {
+      const { bands } = analyzeAudio(parseWav(wav([samples])), 100);
+      // Skip the first window, where the filters settle
+      const energy = (band: keyof typeof bands) =>
+        bands[band].slice(1).reduce((sum, value) => sum + value, 0);
+      return (["bass", "mids", "treble"] as const).reduce((a, b) =>
+        energy(a) > energy(b) ? a : b,
+      );
+    };
+    assert.equal(loudest(tone(60, 500)), "bass");
+    assert.equal(loudest(tone(800, 500)), "mids");
+    assert.equal(loudest(tone(3500, 500)), "treble");
+  });
+
+  it("measures one window per resolution and notes the length", () => {
+    const features = analyzeAudio(
+      parseWav(wav([[...tone(60, 500), ...silence(250)]])),
+      100,
+    );
+    assert.equal(features.duration, 750);
+    assert.equal(features.audioDuration, 750);
+    assert.equal(features.bands.envelope.length, 8);
+    assert.ok(features.bands.envelope[2] > 0.5);
+    assert.equal(features.bands.envelope[7], 0);
+  });
+});
+
+describe("bandLevels", () => {
+  const mapping = { sensitivity: 1, smoothing: 0, floor: 0, ceiling: 1 };
+
+  it("scales to the loud parts of the track and maps onto floor..ceiling", () => {
+    assert.deepEqual(
+      bandLevels([0, 0.5, 1, 1], 50, { ...mapping, floor: 0.2, ceiling: 0.6 }),
+      [0.2, 0.4, 0.6, 0.6],
+    );
+    assert.deepEqual(
+      bandLevels([0, 0.25, 1, 1], 50, { ...mapping, sensitivity: 2 }),
+      [0, 0.5, 1, 1],
+    );
+  });
+
+  it("smooths the levels over the smoothing time", () => {
+    const levels = bandLevels([0, 1, 1, 1, 1], 50, {
+      ...mapping,
+      smoothing: 50,
+    });
+    assert.equal(levels[0], 0);
+    assert.equal(levels[1], 0.632);
+    assert.ok(levels[2] > levels[1] && levels[4] < 1);
+  });
+});
+
+describe("audioSamples", () => {
+  it("leaves out channels that are off and ends with the audio", () => {
+    const features = analyzeAudio(parseWav(wav([tone(60, 250)])), 100);
+    const samples = audioSamples(
+      features,
+      { vibration: "bass", vacuum: "off" },
+      { sensitivity: 1, smoothing: 0, floor: 0, ceiling: 1 },
+    );
+    assert.deepEqual(
+      samples.map((sample) => sample.at),
+      [0, 100, 200, 250],
+    );
+    assert.ok(samples.every((sample) => sample.levels.vacuum === undefined));
+    assert.equal(samples[1].levels.vibration, 1);
+  });
+});
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { loadConfig } from "../src/config.js";
+
+const TOKEN = "test-token-0123456789";
+
+describe("loadConfig", () => {
+  let dir: string;
+  let file: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "samneo-config-"));
+    file = join(dir, "config.json");
+    await writeFile(
+      file,
+      JSON.stringify({ scanTimeout: 20000, maxVacuum: 0.5, simulate: true }),
+    );
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("falls back to the defaults", () => {
+    const config = loadConfig([], {});
+    assert.equal(config.serverUrl, "ws://localhost:12345");
+    assert.equal(config.scanTimeout, 15000);
+    assert.equal(config.recordSessions, false);
+    assert.equal(config.simulate, false);
+    assert.equal(config.stdio, true);
+  });
+
+  it("prefers CLI flags over environment variables over the file", () => {
+    const env = { SAMNEO_CONFIG: file, SAMNEO_SCAN_TIMEOUT: "30000" };
+
+    const fromFile = loadConfig([], { SAMNEO_CONFIG: file });
+    assert.equal(fromFile.scanTimeout, 20000);
+    assert.equal(fromFile.maxVacuum, 0.5);
+
+    const fromEnv = loadConfig([], env);
+    assert.equal(fromEnv.scanTimeout, 30000);
+    assert.equal(fromEnv.maxVacuum, 0.5);
+
+    const fromArgs = loadConfig(["--scan-timeout", "40000"], env);
+    assert.equal(fromArgs.scanTimeout, 40000);
+    assert.equal(fromArgs.maxVacuum, 0.5);
+  });
+
+  it("reads flags as booleans from every source", () => {
+    assert.equal(loadConfig([], { SAMNEO_CONFIG: file }).simulate, true);
+    assert.equal(
+      loadConfig([], { SAMNEO_CONFIG: file, SAMNEO_SIMULATE: "0" }).simulate,
+      false,
+    );
+    assert.equal(
+      loadConfig([], { SAMNEO_RECORD_SESSIONS: "true" }).recordSessions,
+      true,
+    );
+    assert.equal(
+      loadConfig(["--record-sessions"], { SAMNEO_RECORD_SESSIONS: "false" })
+        .recordSessions,
+      true,
+    );
+
+    const http = { SAMNEO_HTTP_PORT: "8080", SAMNEO_HTTP_TOKEN: TOKEN };
+    assert.equal(loadConfig([], { ...http, SAMNEO_STDIO: "1" }).stdio, true);
+    assert.equal(loadConfig(["--no-stdio"], http).stdio, false);
+    assert.throws(
+      () => loadConfig([], { SAMNEO_SIMULATE: "yes" }),
+      /^Error: Invalid configuration:\n {2}simulate: /,
+    );
+  });
+
+  it("splits lists given as comma-separated text", () => {
+    const config = loadConfig(["--device-pattern", "neo, pro"], {
+      SAMNEO_INPUT_ORIGINS: "http://localhost:3000,http://127.0.0.1:3000",
+    });
+    assert.deepEqual(config.devicePatterns, ["neo", "pro"]);
+    assert.deepEqual(config.inputOrigins, [
+      "http://localhost:3000",
+      "http://127.0.0.1:3000",
+    ]);
+  });
+
+  it("lists every invalid setting", () => {
+    assert.throws(
+      () =>
+        loadConfig(["--max-vibration", "2", "--log-level", "loud"], {
+          SAMNEO_SERVER_URL: "not a url",
+        }),
+      (e: Error) => {
+        assert.match(e.message, /^Invalid configuration:/);
+        assert.match(e.message, /\n {2}serverUrl: /);
+        assert.match(e.message, /\n {2}maxVibration: /);
+        assert.match(e.message, /\n {2}logLevel: /);
+        return true;
+      },
+    );
+  });
+
+  it("requires the settings other ones depend on", () => {
+    assert.throws(
+      () => loadConfig(["--http-port", "8080"], {}),
+      /httpToken: Required when httpPort is set/,
+    );
+    assert.throws(
+      () => loadConfig(["--no-stdio"], {}),
+      /stdio: Can only be turned off when httpPort is set/,
+    );
+    assert.throws(
+      () => loadConfig(["--input-host", "0.0.0.0"], {}),
+      /inputToken: Required when inputHost isn't a loopback address/,
+    );
+    assert.equal(
+      loadConfig(["--input-host", "0.0.0.0", "--input-token", TOKEN], {})
+        .inputHost,
+      "0.0.0.0",
+    );
+  });
+
+  it("rejects unknown keys and unreadable files", async () => {
+    const unknown = join(dir, "unknown.json");
+    await writeFile(unknown, JSON.stringify({ serverURL: "ws://x:1" }));
+    assert.throws(
+      () => loadConfig(["--config", unknown], {}),
+      /Unrecognized key\(s\) in object: 'serverURL'/,
+    );
+
+    const broken = join(dir, "broken.json");
+    await writeFile(broken, "{");
+    assert.throws(
+      () => loadConfig(["--config", broken], {}),
+      /is not valid JSON/,
+    );
+    assert.throws(
+      () => loadConfig(["--config", join(dir, "missing.json")], {}),
+      /^Error: Cannot read config file /,
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  type SamNeoDevice,
+  SamNeoVersion,
+  detectSamNeoVersion,
+  isSamNeoDevice,
+} from "../src/device.js";
+
+const DEFAULT_PATTERNS = ["svakom sam neo", "sam neo", "samneo"];
+
+function deviceWith(actuatorTypes: string[] | undefined): SamNeoDevice {
+  return {
+    messageAttributes: {
+      ScalarCmd: actuatorTypes?.map((ActuatorType, Index) => ({
+        FeatureDescriptor: "",
+        ActuatorType,
+        StepCount: 20,
+        Index,
+      })),
+      StopDeviceCmd: {},
+    },
+  } as unknown as SamNeoDevice;
+}
+
+describe("isSamNeoDevice", () => {
+  it("matches Sam Neo names case-insensitively", () => {
+    assert.equal(isSamNeoDevice("Svakom Sam Neo", DEFAULT_PATTERNS), true);
+    assert.equal(
+      isSamNeoDevice("SVAKOM SAM NEO 2 PRO", DEFAULT_PATTERNS),
+      true,
+    );
+    assert.equal(isSamNeoDevice("SamNeo", DEFAULT_PATTERNS), true);
+  });
+
+  it("rejects other devices", () => {
+    assert.equal(isSamNeoDevice("Lovense Lush", DEFAULT_PATTERNS), false);
+    assert.equal(isSamNeoDevice("Svakom Emma", DEFAULT_PATTERNS), false);
+  });
+
+  it("uses the configured patterns", () => {
+    assert.equal(isSamNeoDevice("My Custom Neo", ["custom neo"]), true);
+    assert.equal(isSamNeoDevice("Svakom Sam Neo", ["custom neo"]), false);
+  });
+});
+
+describe("detectSamNeoVersion", () => {
+  it("detects the Sam Neo 2 series from Vibrate + Constrict", () => {
+    assert.equal(
+      detectSamNeoVersion(deviceWith(["Vibrate", "Constrict"])),
+      SamNeoVersion.NEO2_SERIES,
+    );
+  });
+
+  it("detects the original Sam Neo from two vibrators", () => {
+    assert.equal(
+      detectSamNeoVersion(deviceWith(["Vibrate", "Vibrate"])),
+      SamNeoVersion.ORIGINAL,
+    );
+  });
+
+  it("falls back to the original Sam Neo", () => {
+    assert.equal(
+      detectSamNeoVersion(deviceWith(undefined)),
+      SamNeoVersion.ORIGINAL,
+    );
+    assert.equal(
+      detectSamNeoVersion(deviceWith(["Vibrate"])),
+      SamNeoVersion.ORIGINAL,
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import { setImmediate as flush } from "node:timers/promises";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { type SamNeoDevice, SamNeoVersion } from "../src/device.js";
+import { SamNeoDriver } from "../src/driver.js";
+import { SafetyLimiter } from "../src/safety.js";
+
+// An original Sam Neo that logs every command, and can hold them back
+function originalSamNeo() {
+  const commands: unknown[] = [];
+  let gate: Promise<void> | undefined;
+  const device = {
+    index: 0,
+    name: "Svakom Sam Neo",
+    messageAttributes: {
+      ScalarCmd: [0, 1].map((Index) => ({
+        FeatureDescriptor: "",
+        ActuatorType: "Vibrate",
+        StepCount: 20,
+        Index,
+      })),
+      StopDeviceCmd: {},
+    },
+    vibrate: async (speeds: number[]) => {
+      await gate;
+      commands.push(speeds);
+    },
+    stop: async () => {
+      commands.push("stop");
+    },
+  } as unknown as SamNeoDevice;
+  const hold = () => {
+    let release = () => {};
+    gate = new Promise((resolve) => (release = resolve));
+    return () => {
+      gate = undefined;
+      release();
+    };
+  };
+  return { device, commands, hold };
+}
+
+function driverFor(device: SamNeoDevice, vibrationSlewRate?: number) {
+  const limiter = new SafetyLimiter({
+    maxVibration: 1,
+    maxVacuum: 1,
+    sessionCooldown: 0,
+    vibrationSlewRate,
+  });
+  return new SamNeoDriver(device, SamNeoVersion.ORIGINAL, limiter);
+}
+
+describe("SamNeoDriver", () => {
+  beforeEach(() =>
+    mock.timers.enable({ apis: ["setTimeout", "Date"], now: 1000 }),
+  );
+  afterEach(() => mock.timers.reset());
+
+  // Lets the ramp step run every 50ms until `ms` have passed
+  async function advance(ms: number) {
+    for (let passed = 0; passed < ms; passed += 50) {
+      mock.timers.tick(50);
+      await flush();
+    }
+  }
+
+  it("ramps a big change in 50ms steps and sends the first at once", async () => {
+    const { device, commands } = originalSamNeo();
+    const driver = driverFor(device, 4);
+
+    await driver.setLevels({ vibration: 1 });
+    assert.deepEqual(commands, [[0.2, 0]]);
+
+    await advance(200);
+    assert.deepEqual(
+      commands
+        .slice(1)
+        .map((speeds) => (speeds as number[]).map((s) => Number(s.toFixed(3)))),
+      [
+        [0.4, 0],
+        [0.6, 0],
+        [0.8, 0],
+        [1, 0],
+      ],
+    );
+    await advance(200);
+    assert.equal(commands.length, 5);
+  });
+
+  it("sends instant changes at once and drops the ramp of that channel", async () => {
+    const { device, commands } = originalSamNeo();
+    const driver = driverFor(device, 4);
+
+    await driver.setLevels({ vibration: 1 });
+    await driver.setLevels({ vibration: 0 }, { instant: true });
+    await advance(200);
+    assert.deepEqual(commands, [
+      [0.2, 0],
+      [0, 0],
+    ]);
+  });
+
+  it("stops the ramp when the device is stopped", async () => {
+    const { device, commands } = originalSamNeo();
+    const driver = driverFor(device, 4);
+
+    await driver.setLevels({ vibration: 1 });
+    await driver.stop();
+    await advance(200);
+    assert.deepEqual(commands, [[0.2, 0], "stop"]);
+    assert.deepEqual(driver.currentLevels, { vibration: 0, vacuum: 0 });
+  });
+
+  it("writes one at a time, each from the levels the previous left", async () => {
+    const { device, commands, hold } = originalSamNeo();
+    const driver = driverFor(device);
+
+    const release = hold();
+    const vibration = driver.setLevels({ vibration: 0.5 });
+    const vacuum = driver.setLevels({ vacuum: 0.3 }, { instant: true });
+    await flush();
+    assert.deepEqual(commands, []);
+
+    release();
+    await Promise.all([vibration, vacuum]);
+    assert.deepEqual(commands, [
+      [0.5, 0],
+      [0.5, 0.3],
+    ]);
+  });
+});
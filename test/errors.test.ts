@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { describe, it } from "node:test";
+import { ButtplugDeviceError } from "buttplug";
+import { InvalidInputError, errorCategory } from "../src/errors.js";
+import { DeviceUnavailableError } from "../src/connection.js";
+import { SafetyLimitError } from "../src/safety.js";
+import { SessionCancelledError } from "../src/sessions.js";
+import { loadFunscript } from "../src/funscript.js";
+
+describe("errorCategory", () => {
+  it("reads the category errors carry", () => {
+    assert.equal(
+      errorCategory(new DeviceUnavailableError("scanning")),
+      "device-disconnected",
+    );
+    assert.equal(
+      errorCategory(new SafetyLimitError("hourly budget used up")),
+      "limit-exceeded",
+    );
+    assert.equal(errorCategory(new SessionCancelledError()), "cancelled");
+    assert.equal(errorCategory(new InvalidInputError("bad")), "invalid-input");
+  });
+
+  it("recognizes Buttplug and file system errors", async () => {
+    assert.equal(
+      errorCategory(new ButtplugDeviceError("Device disconnected", 1)),
+      "device-disconnected",
+    );
+    const missing = await readFile("/nonexistent/file").catch((e) => e);
+    assert.equal(errorCategory(missing), "not-found");
+  });
+
+  it("follows the cause of wrapping errors", async () => {
+    const missing = await loadFunscript("/nonexistent/script.funscript").catch(
+      (e) => e,
+    );
+    assert.match(`${missing}`, /Cannot read funscript/);
+    assert.equal(errorCategory(missing), "not-found");
+    assert.equal(errorCategory(new Error("boom")), "internal");
+    assert.equal(errorCategory("boom"), "internal");
+  });
+});
@@ -0,0 +1,199 @@
+import assert from "node:assert/strict";
+import { request } from "node:http";
+import { setTimeout as sleep } from "node:timers/promises";
+import { after, before, describe, it } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { ResourceListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { TestServer } from "./support/mcpClient.js";
+import { freePort } from "./support/ports.js";
+import {
+  SAM_NEO_2_PRO,
+  StandInButtplugServer,
+} from "./support/standInServer.js";
+
+const TOKEN = "test-token-0123456789";
+
+const initialize = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-06-18",
+    capabilities: {},
+    clientInfo: { name: "samneo-http-test", version: "1.0.0" },
+  },
+};
+
+async function text(client: Client, name: string, args = {}) {
+  const result = await client.callTool({ name, arguments: args });
+  return (result.content as { text?: string }[])
+    .map((item) => item.text ?? "")
+    .join("\n");
+}
+
+describe("Streamable HTTP transport", () => {
+  const standIn = new StandInButtplugServer([SAM_NEO_2_PRO]);
+  let server: TestServer;
+  let url: URL;
+  const clients: Client[] = [];
+
+  const connect = async () => {
+    const client = new Client({ name: "samneo-http-test", version: "1.0.0" });
+    await client.connect(
+      new StreamableHTTPClientTransport(url, {
+        requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } },
+      }),
+    );
+    clients.push(client);
+    return client;
+  };
+
+  before(async () => {
+    const port = await freePort();
+    url = new URL(`http://127.0.0.1:${port}/mcp`);
+    server = await TestServer.start(await standIn.start(), [
+      "--http-port",
+      `${port}`,
+      "--http-token",
+      TOKEN,
+      "--http-session-timeout",
+      "3000",
+    ]);
+    await server.waitForDevices(1);
+  });
+
+  after(async () => {
+    for (const client of clients) await client.close();
+    await server.close();
+    await standIn.close();
+  });
+
+  it("rejects requests without the bearer token", async () => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{}",
+    });
+    assert.equal(response.status, 401);
+
+    const wrong = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: "Bearer not-the-token",
+      },
+      body: "{}",
+    });
+    assert.equal(wrong.status, 401);
+  });
+
+  it("refuses Host headers of other names, against DNS rebinding", async () => {
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      const req = request(
+        url,
+        {
+          method: "POST",
+          headers: {
+            Host: `attacker.example:${url.port}`,
+            Authorization: `Bearer ${TOKEN}`,
+            "Content-Type": "application/json",
+            Accept: "application/json, text/event-stream",
+          },
+        },
+        (res) => {
+          res.resume();
+          resolve(res.statusCode);
+        },
+      );
+      req.on("error", reject);
+      req.end(JSON.stringify(initialize));
+    });
+    assert.equal(status, 403);
+  });
+
+  it("closes client sessions that sit idle", async () => {
+    // A client that went away without ending its session or keeping a stream
+    const post = (body: unknown, headers: Record<string, string> = {}) =>
+      fetch(url, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${TOKEN}`,
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          ...headers,
+        },
+        body: JSON.stringify(body),
+      });
+    const opened = await post(initialize);
+    const sessionId = opened.headers.get("mcp-session-id");
+    await opened.body?.cancel();
+    assert.ok(sessionId);
+
+    await sleep(4500);
+    const later = await post(
+      { jsonrpc: "2.0", id: 2, method: "tools/list" },
+      { "mcp-session-id": sessionId },
+    );
+    assert.equal(later.status, 404);
+  });
+
+  it("doesn't offer the tools that read local files", async () => {
+    const client = await connect();
+    const { tools } = await client.listTools();
+    const names = tools.map((tool) => tool.name);
+    assert.ok(names.includes("Svakom-Sam-Neo-Vacuum"));
+    assert.ok(!names.includes("Svakom-Sam-Neo-Funscript"));
+    assert.ok(!names.includes("Svakom-Sam-Neo-Audio"));
+  });
+
+  it("tells every client when the pattern library changes", async () => {
+    const client = await connect();
+    let notified = 0;
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      notified++;
+    });
+
+    // Saved over stdio, announced to the HTTP client too
+    assert.match(
+      await server.call("Svakom-Sam-Neo-Save-Pattern", {
+        name: "shared-suction",
+        kind: "vacuum",
+        params: { intensity: 0.3, duration: 200 },
+      }),
+      /^Pattern saved/,
+    );
+    for (let i = 0; i < 50 && notified === 0; i++) await sleep(20);
+    assert.equal(notified, 1);
+
+    await server.call("Svakom-Sam-Neo-Delete-Pattern", {
+      name: "shared-suction",
+    });
+    for (let i = 0; i < 50 && notified === 1; i++) await sleep(20);
+    assert.equal(notified, 2);
+  });
+
+  it("serves several clients next to stdio, sharing the device", async () => {
+    const first = await connect();
+    const second = await connect();
+
+    const started = await text(first, "Svakom-Sam-Neo-Vacuum", {
+      duration: 10000,
+    });
+    const id = started.match(/session: ([0-9a-f-]{36})/)?.[1];
+    assert.ok(id, started);
+
+    // The session started over HTTP is visible to the other HTTP client and
+    // to the stdio client
+    assert.match(await text(second, "Svakom-Sam-Neo-Sessions"), /running/);
+    assert.match(
+      await server.call("Svakom-Sam-Neo-Session-Status", { sessionId: id }),
+      /: running,/,
+    );
+
+    assert.match(
+      await text(second, "Svakom-Sam-Neo-Stop"),
+      /^Emergency stop - stopped Svakom-Sam-Neo-Vacuum/,
+    );
+  });
+});
@@ -0,0 +1,288 @@
+import assert from "node:assert/strict";
+import { createSocket } from "node:dgram";
+import { setTimeout as sleep } from "node:timers/promises";
+import { after, before, describe, it } from "node:test";
+import WebSocket from "ws";
+import {
+  channelMappingSchema,
+  parseJsonInput,
+  parseOscPacket,
+  targetLevel,
+} from "../src/input.js";
+import { TestServer } from "./support/mcpClient.js";
+import { freePort, freeUdpPort } from "./support/ports.js";
+import {
+  type ReceivedCommand,
+  SAM_NEO_2_PRO,
+  StandInButtplugServer,
+} from "./support/standInServer.js";
+
+const neo2Vibration = (Scalar: number): ReceivedCommand => ({
+  type: "ScalarCmd",
+  DeviceIndex: SAM_NEO_2_PRO.index,
+  Scalars: [{ Index: 0, Scalar, ActuatorType: "Vibrate" }],
+});
+const neo2Vacuum = (Scalar: number): ReceivedCommand => ({
+  type: "ScalarCmd",
+  DeviceIndex: SAM_NEO_2_PRO.index,
+  Scalars: [{ Index: 1, Scalar, ActuatorType: "Constrict" }],
+});
+
+// OSC string: UTF-8, null terminated, padded to four bytes
+function oscString(value: string): Buffer {
+  const bytes = Buffer.from(value, "utf8");
+  return Buffer.concat([bytes, Buffer.alloc(4 - (bytes.length % 4))]);
+}
+
+function oscFloat(address: string, value: number): Buffer {
+  const arg = Buffer.alloc(4);
+  arg.writeFloatBE(value);
+  return Buffer.concat([oscString(address), oscString(",f"), arg]);
+}
+
+describe("parseJsonInput", () => {
+  it("reads numbers and booleans as signals", () => {
+    assert.deepEqual(parseJsonInput('{"vibration": 0.5, "touching": true}'), [
+      { signal: "vibration", value: 0.5 },
+      { signal: "touching", value: 1 },
+    ]);
+  });
+
+  it("rejects anything but an object of numbers", () => {
+    assert.throws(() => parseJsonInput("0.5"), /JSON object/);
+    assert.throws(() => parseJsonInput('{"a": "high"}'), /a is not a number/);
+    assert.throws(() => parseJsonInput("{"));
+  });
+});
+
+describe("parseOscPacket", () => {
+  it("reads the first numeric argument of a message", () => {
+    const intArg = Buffer.alloc(4);
+    intArg.writeInt32BE(7);
+    assert.deepEqual(
+      parseOscPacket(
+        Buffer.concat([
+          oscString("/avatar/parameters/Speed"),
+          oscString(",si"),
+          oscString("label"),
+          intArg,
+        ]),
+      ),
+      [{ signal: "/avatar/parameters/Speed", value: 7 }],
+    );
+    assert.deepEqual(
+      parseOscPacket(Buffer.concat([oscString("/touch"), oscString(",T")])),
+      [{ signal: "/touch", value: 1 }],
+    );
+    assert.deepEqual(parseOscPacket(oscString("/ping")), []);
+  });
+
+  it("reads every message of a bundle", () => {
+    const messages = [oscFloat("/vibration", 0.5), oscFloat("/vacuum", 0.25)];
+    const bundle = Buffer.concat([
+      oscString("#bundle"),
+      Buffer.alloc(8),
+      ...messages.flatMap((message) => {
+        const size = Buffer.alloc(4);
+        size.writeInt32BE(message.length);
+        return [size, message];
+      }),
+    ]);
+    assert.deepEqual(parseOscPacket(bundle), [
+      { signal: "/vibration", value: 0.5 },
+      { signal: "/vacuum", value: 0.25 },
+    ]);
+  });
+
+  it("rejects packets that aren't OSC", () => {
+    assert.throws(() => parseOscPacket(Buffer.from("hello")), /OSC/);
+  });
+});
+
+describe("targetLevel", () => {
+  const mapping = channelMappingSchema.parse({
+    signal: "heartRate",
+    min: 60,
+    max: 160,
+    scale: 0.8,
+  });
+
+  it("scales the signal from min..max onto 0..scale", () => {
+    const now = Date.now();
+    assert.equal(targetLevel(mapping, { value: 110, at: now }, now, 1000), 0.4);
+    assert.equal(targetLevel(mapping, { value: 200, at: now }, now, 1000), 0.8);
+    assert.equal(targetLevel(mapping, { value: 20, at: now }, now, 1000), 0);
+    assert.equal(
+      targetLevel(
+        { ...mapping, invert: true },
+        { value: 60, at: now },
+        now,
+        1000,
+      ),
+      0.8,
+    );
+  });
+
+  it("falls back to 0 without a recent value", () => {
+    const now = Date.now();
+    assert.equal(targetLevel(mapping, undefined, now, 1000), 0);
+    assert.equal(
+      targetLevel(mapping, { value: 160, at: now - 1500 }, now, 1000),
+      0,
+    );
+  });
+});
+
+describe("input mode", () => {
+  const standIn = new StandInButtplugServer([SAM_NEO_2_PRO]);
+  let server: TestServer;
+
+  before(async () => {
+    server = await TestServer.start(await standIn.start());
+    await server.waitForDevices(1);
+    standIn.take();
+  });
+
+  after(async () => {
+    await server.close();
+    await standIn.close();
+  });
+
+  it("drives the device from WebSocket messages until stopped", async () => {
+    const port = await freePort();
+    const started = await server.call("Svakom-Sam-Neo-Input-Start", {
+      port,
+      vibration: { signal: "speed", max: 10, smoothing: 0 },
+    });
+    assert.match(
+      started,
+      new RegExp(
+        `^Input mode started - session: .*, listening on ws://127\\.0\\.0\\.1:${port}, vibration: speed 0\\.\\.10 -> 0\\.\\.1, smoothing 0ms, vacuum: off`,
+      ),
+    );
+
+    const ws = new WebSocket(`ws://127.0.0.1:${port}`);
+    await new Promise((resolve, reject) => {
+      ws.once("open", resolve);
+      ws.once("error", reject);
+    });
+    const closed = new Promise((resolve) => ws.once("close", resolve));
+    ws.send(JSON.stringify({ speed: 5 }));
+    ws.send("not json");
+    await sleep(200);
+
+    const status = await server.call("Svakom-Sam-Neo-Input-Status");
+    assert.match(status, /connected: 127\.0\.0\.1:\d+ \(2 messages/);
+    assert.match(status, /signals: speed=5 /);
+    assert.match(status, /messages: 2, rejected: 1/);
+    assert.match(status, /Svakom-Sam-Neo-Input on .*: running/);
+
+    assert.match(
+      await server.call("Svakom-Sam-Neo-Input-Stop"),
+      /^Input mode stopped - session: /,
+    );
+    await sleep(50);
+    assert.deepEqual(standIn.take(), [
+      neo2Vibration(0),
+      neo2Vibration(0.5),
+      neo2Vibration(0),
+      neo2Vacuum(0),
+    ]);
+    assert.equal(
+      await server.call("Svakom-Sam-Neo-Input-Status"),
+      "Input mode is not running",
+    );
+    // The server is gone with input mode
+    await closed;
+  });
+
+  it("follows OSC messages and ends with the emergency stop", async () => {
+    const port = await freeUdpPort();
+    await server.call("Svakom-Sam-Neo-Input-Start", {
+      protocol: "osc",
+      port,
+      vacuum: { signal: "/vacuum", smoothing: 0 },
+    });
+
+    const socket = createSocket("udp4");
+    await new Promise<void>((resolve) =>
+      socket.send(oscFloat("/vacuum", 0.25), port, "127.0.0.1", () =>
+        resolve(),
+      ),
+    );
+    await sleep(200);
+    assert.match(
+      await server.call("Svakom-Sam-Neo-Input-Status"),
+      /senders: 127\.0\.0\.1:\d+ \(1 messages/,
+    );
+    socket.close();
+
+    assert.match(
+      await server.call("Svakom-Sam-Neo-Stop"),
+      /^Emergency stop - stopped Svakom-Sam-Neo-Input/,
+    );
+    const commands = standIn.take();
+    assert.deepEqual(commands.slice(0, 2), [neo2Vacuum(0), neo2Vacuum(0.25)]);
+    assert.equal(
+      await server.call("Svakom-Sam-Neo-Input-Status"),
+      "Input mode is not running",
+    );
+  });
+});
+
+describe("input mode with a token", () => {
+  const TOKEN = "input-token-0123456789";
+  const standIn = new StandInButtplugServer([SAM_NEO_2_PRO]);
+  let server: TestServer;
+
+  before(async () => {
+    server = await TestServer.start(await standIn.start(), [
+      "--input-token",
+      TOKEN,
+      "--input-origin",
+      "http://localhost:3000",
+    ]);
+    await server.waitForDevices(1);
+  });
+
+  after(async () => {
+    await server.close();
+    await standIn.close();
+  });
+
+  // Whether the server accepts the WebSocket handshake
+  async function opens(url: string, options: WebSocket.ClientOptions = {}) {
+    const ws = new WebSocket(url, options);
+    const opened = await new Promise<boolean>((resolve) => {
+      ws.once("open", () => resolve(true));
+      ws.once("error", () => resolve(false));
+    });
+    ws.terminate();
+    return opened;
+  }
+
+  it("refuses clients without the token or from other origins", async () => {
+    const port = await freePort();
+    await server.call("Svakom-Sam-Neo-Input-Start", { port });
+    const url = `ws://127.0.0.1:${port}`;
+
+    assert.equal(await opens(url), false);
+    assert.equal(await opens(`${url}/?token=not-the-token`), false);
+    assert.equal(
+      await opens(url, { headers: { Authorization: `Bearer ${TOKEN}` } }),
+      true,
+    );
+    assert.equal(
+      await opens(`${url}/?token=${TOKEN}`, {
+        origin: "http://localhost:3000",
+      }),
+      true,
+    );
+    assert.equal(
+      await opens(`${url}/?token=${TOKEN}`, { origin: "https://example.com" }),
+      false,
+    );
+
+    await server.call("Svakom-Sam-Neo-Input-Stop");
+  });
+});
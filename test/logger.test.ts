@@ -0,0 +1,172 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { after, before, describe, it } from "node:test";
+import { LoggingMessageNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import {
+  type LogEntry,
+  RotatingFile,
+  addLogSink,
+  configureLogging,
+  createLogger,
+  formatJson,
+  formatPretty,
+} from "../src/logger.js";
+import { TestServer } from "./support/mcpClient.js";
+import {
+  SAM_NEO_2_PRO,
+  StandInButtplugServer,
+} from "./support/standInServer.js";
+
+const entry: LogEntry = {
+  time: "2026-01-01T00:00:00.000Z",
+  level: "info",
+  component: "Sessions",
+  message: "Starting session",
+  data: { tool: "Svakom-Sam-Neo-Vacuum", params: { intensity: 0.5 } },
+};
+
+describe("log formats", () => {
+  it("pretty prints the fields as key=value", () => {
+    assert.equal(
+      formatPretty(entry),
+      '2026-01-01T00:00:00.000Z info    [Sessions] Starting session tool=Svakom-Sam-Neo-Vacuum params={"intensity":0.5}',
+    );
+  });
+
+  it("writes one JSON object with the fields at the top level", () => {
+    assert.deepEqual(JSON.parse(formatJson(entry)), {
+      time: "2026-01-01T00:00:00.000Z",
+      level: "info",
+      component: "Sessions",
+      message: "Starting session",
+      tool: "Svakom-Sam-Neo-Vacuum",
+      params: { intensity: 0.5 },
+    });
+  });
+});
+
+describe("Logger", () => {
+  before(() => {
+    // Keep the test output clean
+    configureLogging({
+      logLevel: "error",
+      logFormat: "pretty",
+      logFileMaxSize: 1024,
+      logFiles: 1,
+    });
+  });
+
+  it("only hands a sink the levels it asked for", () => {
+    const received: LogEntry[] = [];
+    const remove = addLogSink({
+      level: "info",
+      write: (entry) => received.push(entry),
+    });
+    const log = createLogger("Test");
+    log.debug("debug");
+    log.info("info");
+    log.warning("warning", { error: new Error("boom"), skipped: undefined });
+    remove();
+    log.warning("after removal");
+
+    assert.deepEqual(
+      received.map((entry) => [entry.component, entry.level, entry.message]),
+      [
+        ["Test", "info", "info"],
+        ["Test", "warning", "warning"],
+      ],
+    );
+    assert.deepEqual(received[1].data, { error: "Error: boom" });
+  });
+});
+
+describe("RotatingFile", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "samneo-log-"));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("rotates past the size limit and keeps the configured number of files", async () => {
+    const path = join(dir, "logs", "server.log");
+    const file = new RotatingFile(path, 22, 2);
+    for (const line of [
+      "one-------",
+      "two-------",
+      "three-----",
+      "four------",
+    ]) {
+      file.write(line);
+    }
+    file.write("five------");
+
+    assert.deepEqual(await readdir(join(dir, "logs")), [
+      "server.log",
+      "server.log.1",
+      "server.log.2",
+    ]);
+    assert.equal(await readFile(path, "utf8"), "five------\n");
+    assert.equal(
+      await readFile(`${path}.1`, "utf8"),
+      "three-----\nfour------\n",
+    );
+    assert.equal(
+      await readFile(`${path}.2`, "utf8"),
+      "one-------\ntwo-------\n",
+    );
+  });
+});
+
+describe("MCP logging notifications", () => {
+  const standIn = new StandInButtplugServer([SAM_NEO_2_PRO]);
+  let server: TestServer;
+
+  before(async () => {
+    server = await TestServer.start(await standIn.start());
+    await server.waitForDevices(1);
+  });
+
+  after(async () => {
+    await server.close();
+    await standIn.close();
+  });
+
+  it("forwards the log from the level the client asks for", async () => {
+    const received: { level: string; logger?: string; data: unknown }[] = [];
+    server.client.setNotificationHandler(
+      LoggingMessageNotificationSchema,
+      (notification) => {
+        received.push(notification.params);
+      },
+    );
+
+    await server.client.setLoggingLevel("debug");
+    await server.play("Svakom-Sam-Neo-Vacuum", { duration: 200 });
+    await sleep(50);
+
+    const started = received.find(
+      (message) =>
+        message.logger === "Sessions" &&
+        (message.data as { message?: string }).message === "Starting session",
+    );
+    assert.equal(started?.level, "info");
+    assert.equal(
+      (started?.data as { tool?: string }).tool,
+      "Svakom-Sam-Neo-Vacuum",
+    );
+    assert.ok(received.some((message) => message.level === "debug"));
+
+    received.length = 0;
+    await server.client.setLoggingLevel("error");
+    await server.play("Svakom-Sam-Neo-Vacuum", { duration: 200 });
+    await sleep(50);
+    assert.deepEqual(received, []);
+  });
+});
@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { z } from "zod";
+import { SamNeoVersion } from "../src/device.js";
+import { pistonParams, pistonSchedule } from "../src/tools/piston.js";
+
+const params = (values: Record<string, unknown>) =>
+  z.object(pistonParams).parse(values);
+
+describe("pistonSchedule", () => {
+  it("keeps varied cycles to 4 per second", () => {
+    for (const seed of [1, 2, 3]) {
+      const { steps } = pistonSchedule(
+        params({ duration: 5000, frequency: 4, tempoVariation: 0.5, seed }),
+        SamNeoVersion.NEO2_SERIES,
+      );
+      // Every cycle starts at the bottom of the stroke
+      const starts = steps
+        .filter((step) => step.levels.vibration === 0)
+        .map((step) => step.at);
+      assert.ok(starts.length > 1);
+      for (let i = 1; i < starts.length; i++) {
+        assert.ok(starts[i] - starts[i - 1] >= 250, `${starts}`);
+      }
+    }
+  });
+});
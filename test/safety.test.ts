@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { SafetyLimitError, SafetyLimiter } from "../src/safety.js";
+
+const DEVICE = "Svakom Sam Neo 2 Pro";
+
+const limits = {
+  maxVibration: 1,
+  maxVacuum: 1,
+  sessionCooldown: 0,
+};
+
+describe("SafetyLimiter", () => {
+  beforeEach(() => mock.timers.enable({ apis: ["Date"], now: 0 }));
+  afterEach(() => mock.timers.reset());
+
+  it("caps levels and names the channels it cut", () => {
+    const limiter = new SafetyLimiter({
+      ...limits,
+      maxVibration: 0.6,
+      maxVacuum: 0.8,
+    });
+    assert.deepEqual(limiter.clip({ vibration: 0.9, vacuum: 0.5 }), {
+      levels: { vibration: 0.6, vacuum: 0.5 },
+      clipped: ["vibration capped at 0.6 (requested 0.9)"],
+    });
+    assert.deepEqual(limiter.describePlan(DEVICE, { vacuum: 1 }), [
+      "vacuum capped at 0.8 (requested 1)",
+    ]);
+  });
+
+  it("limits how fast a level changes", () => {
+    const limiter = new SafetyLimiter({ ...limits, vibrationSlewRate: 2 });
+    assert.equal(limiter.slew("vibration", 0, 1, 100), 0.2);
+    assert.equal(limiter.slew("vibration", 1, 0.9, 100), 0.9);
+    assert.equal(limiter.slew("vacuum", 0, 1, 100), 1);
+  });
+
+  it("counts max run time across sessions replacing each other", () => {
+    const limiter = new SafetyLimiter({ ...limits, maxRunTime: 10000 });
+    limiter.begin(DEVICE, false);
+    mock.timers.tick(4000);
+    limiter.end(DEVICE);
+    limiter.begin(DEVICE, true);
+    mock.timers.tick(2000);
+    assert.deepEqual(limiter.remaining(DEVICE), {
+      ms: 4000,
+      limit: "max run time (10000ms)",
+    });
+    assert.deepEqual(limiter.describePlan(DEVICE, { duration: 5000 }), [
+      "cut to 4000ms by max run time (10000ms)",
+    ]);
+
+    // A new run after a break starts over
+    limiter.end(DEVICE);
+    mock.timers.tick(1000);
+    limiter.begin(DEVICE, false);
+    assert.equal(limiter.remaining(DEVICE)?.ms, 10000);
+  });
+
+  it("refuses new runs once the hourly budget is used up", () => {
+    const limiter = new SafetyLimiter({ ...limits, hourlyBudget: 5000 });
+    limiter.begin(DEVICE, false);
+    mock.timers.tick(5000);
+    limiter.end(DEVICE);
+
+    assert.throws(
+      () => limiter.begin(DEVICE, false),
+      new SafetyLimitError("hourly budget (5000ms) used up, try again later"),
+    );
+    // Other devices have budgets of their own
+    limiter.begin("Svakom Sam Neo", false);
+
+    mock.timers.tick(60 * 60 * 1000);
+    assert.equal(limiter.remaining(DEVICE)?.ms, 5000);
+    limiter.begin(DEVICE, false);
+  });
+
+  it("enforces the cooldown between runs but not between replacements", () => {
+    const limiter = new SafetyLimiter({ ...limits, sessionCooldown: 3000 });
+    limiter.begin(DEVICE, false);
+    mock.timers.tick(1000);
+    limiter.end(DEVICE);
+    limiter.begin(DEVICE, true);
+    limiter.end(DEVICE);
+
+    mock.timers.tick(1000);
+    assert.throws(
+      () => limiter.begin(DEVICE, false),
+      new SafetyLimitError(
+        "Cooling down: next session allowed in 2s (sessionCooldown 3000ms)",
+      ),
+    );
+    mock.timers.tick(2000);
+    limiter.begin(DEVICE, false);
+  });
+
+  it("checks without changing anything", () => {
+    const limiter = new SafetyLimiter({ ...limits, maxRunTime: 10000 });
+    limiter.begin(DEVICE, false);
+    mock.timers.tick(10000);
+    assert.throws(() => limiter.check(DEVICE, true), SafetyLimitError);
+    assert.deepEqual(limiter.remaining(DEVICE), {
+      ms: 0,
+      limit: "max run time (10000ms)",
+    });
+    limiter.check(DEVICE, false);
+    assert.equal(limiter.remaining(DEVICE)?.ms, 0);
+  });
+});
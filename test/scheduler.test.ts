@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { setTimeout } from "node:timers/promises";
+import { describe, it } from "node:test";
+import { type ActuatorLevels } from "../src/driver.js";
+import { Scheduler, appendSchedule, mergeSchedules } from "../src/scheduler.js";
+
+// Pattern context whose level writes take `latency` ms, like a BLE round trip
+function slowContext(latency: number) {
+  const writes: ActuatorLevels[] = [];
+  return {
+    writes,
+    ctx: {
+      setLevels: async (levels: ActuatorLevels) => {
+        writes.push(levels);
+        await setTimeout(latency);
+      },
+      sleep: (ms: number) => setTimeout(ms),
+      step: () => {},
+    },
+  };
+}
+
+describe("mergeSchedules", () => {
+  it("puts both tracks on one clock and merges steps due together", () => {
+    const merged = mergeSchedules(
+      {
+        steps: [
+          { at: 0, levels: { vibration: 0 } },
+          { at: 100, levels: { vibration: 0.5 } },
+        ],
+        duration: 200,
+      },
+      {
+        steps: [
+          { at: 0, levels: { vacuum: 1 } },
+          { at: 50, levels: { vacuum: 0 } },
+        ],
+        duration: 300,
+      },
+    );
+    assert.deepEqual(merged, {
+      steps: [
+        { at: 0, levels: { vibration: 0, vacuum: 1 }, instant: undefined },
+        { at: 50, levels: { vacuum: 0 } },
+        { at: 100, levels: { vibration: 0.5 } },
+      ],
+      duration: 300,
+    });
+  });
+});
+
+describe("appendSchedule", () => {
+  const first = {
+    steps: [{ at: 0, levels: { vibration: 0.2, vacuum: 0.4 } }],
+    duration: 500,
+  };
+  const second = {
+    steps: [{ at: 0, levels: { vibration: 0.6 } }],
+    duration: 500,
+  };
+
+  it("plays the next schedule straight after, keeping undriven channels", () => {
+    assert.deepEqual(appendSchedule(first, second), {
+      steps: [
+        { at: 0, levels: { vibration: 0.2, vacuum: 0.4 } },
+        { at: 500, levels: { vibration: 0.6 } },
+      ],
+      duration: 1000,
+    });
+  });
+
+  it("overlaps and blends the two during a crossfade", () => {
+    const { steps, duration } = appendSchedule(first, second, 100);
+    assert.equal(duration, 900);
+    assert.deepEqual(
+      steps.map((step) => [step.at, step.levels.vibration]),
+      [
+        [0, 0.2],
+        [400, 0.2],
+        [450, 0.4],
+        [500, 0.6],
+      ],
+    );
+    assert.ok(
+      steps.every((step) => step.levels.vacuum === undefined || step.at === 0),
+    );
+  });
+});
+
+describe("Scheduler", () => {
+  it("keeps to the planned duration when writes take time", async () => {
+    const { ctx, writes } = slowContext(20);
+    const timing = await new Scheduler(
+      {
+        steps: Array.from({ length: 10 }, (_, i) => ({
+          at: i * 50,
+          levels: { vibration: i / 10 },
+        })),
+        duration: 500,
+      },
+      ctx,
+    ).run();
+
+    // Sleeping a fixed 50ms after each write would take 700ms
+    assert.equal(writes.length, 10);
+    assert.equal(timing.sent, 10);
+    assert.equal(timing.skipped, 0);
+    assert.ok(timing.actual < 600, `took ${timing.actual}ms`);
+  });
+
+  it("merges steps it falls behind on into the next one", async () => {
+    const { ctx, writes } = slowContext(120);
+    const timing = await new Scheduler(
+      {
+        steps: [
+          { at: 0, levels: { vibration: 0.1 } },
+          { at: 50, levels: { vacuum: 0.2 } },
+          { at: 100, levels: { vibration: 0.3 } },
+          { at: 300, levels: { vibration: 0.4 } },
+        ],
+        duration: 400,
+      },
+      ctx,
+    ).run();
+
+    assert.deepEqual(writes, [
+      { vibration: 0.1 },
+      { vacuum: 0.2, vibration: 0.3 },
+      { vibration: 0.4 },
+    ]);
+    assert.equal(timing.steps, 4);
+    assert.equal(timing.sent, 3);
+    assert.equal(timing.skipped, 1);
+    assert.ok(timing.maxLate >= 20, `max late ${timing.maxLate}ms`);
+  });
+});
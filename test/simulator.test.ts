@@ -0,0 +1,24 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CommandTrace } from "../src/simulator.js";
+
+describe("CommandTrace", () => {
+  it("gives every reader its own cursor", () => {
+    const trace = new CommandTrace();
+    const first = trace.reader();
+    trace.record("Sam Neo", "vibrate", [0.5, 0]);
+    const second = trace.reader();
+    trace.record("Sam Neo", "stop", undefined);
+
+    assert.deepEqual(
+      first().map((entry) => entry.command),
+      ["vibrate", "stop"],
+    );
+    assert.deepEqual(
+      second().map((entry) => entry.command),
+      ["stop"],
+    );
+    assert.deepEqual(first(), []);
+    assert.equal(trace.all().length, 2);
+  });
+});
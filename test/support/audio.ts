@@ -0,0 +1,40 @@
+export const RATE = 8000;
+
+// 16-bit PCM WAV with one array of samples (-1.0 to 1.0) per channel
+export function wav(samples: number[][], sampleRate = RATE): Buffer {
+  const channels = samples.length;
+  const frames = samples[0].length;
+  const data = Buffer.alloc(frames * channels * 2);
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < channels; channel++) {
+      data.writeInt16LE(
+        Math.round(samples[channel][frame] * 0x7fff),
+        (frame * channels + channel) * 2,
+      );
+    }
+  }
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * channels * 2, 28);
+  header.writeUInt16LE(channels * 2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+// `ms` of a sine wave at `frequency` Hz
+export const tone = (frequency: number, ms: number, amplitude = 0.8) =>
+  Array.from(
+    { length: (ms / 1000) * RATE },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / RATE),
+  );
+export const silence = (ms: number) =>
+  Array.from({ length: (ms / 1000) * RATE }, () => 0);
@@ -0,0 +1,107 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { type CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+const SESSION_ID = /session: ([0-9a-f-]{36})/;
+
+/**
+ * The real server (src/main.ts, run through tsx) driven by an MCP client
+ * over stdio, with its own temporary data directory.
+ */
+export class TestServer {
+  private constructor(
+    readonly client: Client,
+    readonly dataDir: string,
+  ) {}
+
+  static async start(serverUrl: string, args: string[] = []) {
+    const dataDir = await mkdtemp(join(tmpdir(), "samneo-test-"));
+    const transport = new StdioClientTransport({
+      command: process.execPath,
+      args: [
+        "--import",
+        "tsx",
+        "src/main.ts",
+        "--server-url",
+        serverUrl,
+        "--scan-timeout",
+        "1000",
+        "--data-dir",
+        dataDir,
+        ...args,
+      ],
+      stderr: process.env.TEST_SERVER_LOGS ? "inherit" : "ignore",
+    });
+    const client = new Client({ name: "samneo-test", version: "1.0.0" });
+    await client.connect(transport);
+    return new TestServer(client, dataDir);
+  }
+
+  // The whole tool result, structuredContent and isError included
+  async result(name: string, args: Record<string, unknown> = {}) {
+    return (await this.client.callTool({
+      name,
+      arguments: args,
+    })) as CallToolResult;
+  }
+
+  // Text of a tool result, all content items joined
+  async call(name: string, args: Record<string, unknown> = {}) {
+    const result = await this.result(name, args);
+    return (result.content as { type: string; text?: string }[])
+      .map((item) => item.text ?? "")
+      .join("\n");
+  }
+
+  // Polls until `count` devices are connected; returns the device listing
+  async waitForDevices(count: number, timeout = 10000): Promise<string> {
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      const listing = await this.call("Svakom-Sam-Neo-Devices");
+      if (
+        listing.split("\n").filter((line) => /^\d+:/.test(line)).length >= count
+      ) {
+        return listing;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Devices never connected: ${listing}`);
+      }
+      await sleep(100);
+    }
+  }
+
+  /**
+   * Calls a pattern tool and waits for its session to end. Returns the start
+   * result and the final session status.
+   */
+  async play(name: string, args: Record<string, unknown>, timeout = 15000) {
+    const started = await this.call(name, args);
+    const id = started.match(SESSION_ID)?.[1];
+    if (!id) throw new Error(`${name} did not start a session: ${started}`);
+
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      const status = await this.call("Svakom-Sam-Neo-Session-Status", {
+        sessionId: id,
+      });
+      if (!status.includes(": running,")) {
+        // Let the final acknowledgements reach the stand-in
+        await sleep(50);
+        return { started, status };
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`${name} session still running: ${status}`);
+      }
+      await sleep(100);
+    }
+  }
+
+  async close() {
+    await this.client.close();
+    await rm(this.dataDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,115 @@
+import { type AddressInfo } from "node:net";
+import { WebSocketServer } from "ws";
+
+export type ActuatorType = "Vibrate" | "Constrict" | "Inflate";
+
+export interface StandInDevice {
+  name: string;
+  index: number;
+  actuators: ActuatorType[];
+}
+
+// A device command as received, without its message Id
+export interface ReceivedCommand {
+  type: string;
+  [field: string]: unknown;
+}
+
+export const ORIGINAL_SAM_NEO: StandInDevice = {
+  name: "Svakom Sam Neo",
+  index: 0,
+  actuators: ["Vibrate", "Vibrate"],
+};
+
+export const SAM_NEO_2_PRO: StandInDevice = {
+  name: "Svakom Sam Neo 2 Pro",
+  index: 1,
+  actuators: ["Vibrate", "Constrict"],
+};
+
+// Device commands the stand-in acknowledges and records
+const DEVICE_COMMANDS = [
+  "ScalarCmd",
+  "VibrateCmd",
+  "LinearCmd",
+  "StopDeviceCmd",
+  "StopAllDevices",
+];
+
+/**
+ * Speaks just enough Buttplug v3 for the server: the handshake, a DeviceList
+ * built from the given devices, and an Ok for scanning and device commands.
+ * Every device command is recorded in `commands`.
+ */
+export class StandInButtplugServer {
+  readonly commands: ReceivedCommand[] = [];
+  private wss: WebSocketServer | undefined;
+
+  constructor(private readonly devices: StandInDevice[]) {}
+
+  async start(): Promise<string> {
+    const wss = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+    this.wss = wss;
+    await new Promise<void>((resolve) => wss.once("listening", resolve));
+
+    wss.on("connection", (socket) => {
+      socket.on("message", (raw) => {
+        for (const message of JSON.parse(raw.toString())) {
+          const [type, body] = Object.entries(message)[0] as [
+            string,
+            { Id: number } & Record<string, unknown>,
+          ];
+          const reply = (replyType: string, fields: object = {}) =>
+            socket.send(
+              JSON.stringify([{ [replyType]: { Id: body.Id, ...fields } }]),
+            );
+
+          if (type === "RequestServerInfo") {
+            reply("ServerInfo", {
+              ServerName: "stand-in",
+              MessageVersion: 3,
+              MaxPingTime: 0,
+            });
+          } else if (type === "RequestDeviceList") {
+            reply("DeviceList", { Devices: this.devices.map(deviceInfo) });
+          } else {
+            if (DEVICE_COMMANDS.includes(type)) {
+              const { Id: _id, ...fields } = body;
+              this.commands.push({ type, ...fields });
+            }
+            reply("Ok");
+          }
+        }
+      });
+    });
+
+    return `ws://127.0.0.1:${(wss.address() as AddressInfo).port}`;
+  }
+
+  // Returns the commands recorded so far and starts a fresh recording
+  take(): ReceivedCommand[] {
+    return this.commands.splice(0);
+  }
+
+  async close(): Promise<void> {
+    const wss = this.wss;
+    if (!wss) return;
+    for (const client of wss.clients) client.terminate();
+    await new Promise<void>((resolve) => wss.close(() => resolve()));
+  }
+}
+
+function deviceInfo(device: StandInDevice) {
+  return {
+    DeviceName: device.name,
+    DeviceIndex: device.index,
+    DeviceMessages: {
+      ScalarCmd: device.actuators.map((actuatorType) => ({
+        FeatureDescriptor: "",
+        ActuatorType: actuatorType,
+        StepCount: 20,
+      })),
+      StopDeviceCmd: {},
+    },
+  };
+}
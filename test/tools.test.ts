@@ -0,0 +1,773 @@
+import assert from "node:assert/strict";
+import { mkdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { after, before, describe, it } from "node:test";
+import { type SessionSummary } from "../src/sessions.js";
+import { silence, tone, wav } from "./support/audio.js";
+import { TestServer } from "./support/mcpClient.js";
+import {
+  ORIGINAL_SAM_NEO,
+  SAM_NEO_2_PRO,
+  type ReceivedCommand,
+  StandInButtplugServer,
+} from "./support/standInServer.js";
+
+const LOVENSE: { name: string; index: number; actuators: ["Vibrate"] } = {
+  name: "Lovense Lush",
+  index: 2,
+  actuators: ["Vibrate"],
+};
+
+// Expected commands, written the way the Buttplug client encodes them
+const vibrate = (levels: number[]): ReceivedCommand => ({
+  type: "ScalarCmd",
+  DeviceIndex: ORIGINAL_SAM_NEO.index,
+  Scalars: levels.map((Scalar, Index) => ({
+    Index,
+    Scalar,
+    ActuatorType: "Vibrate",
+  })),
+});
+const neo2Vibration = (Scalar: number): ReceivedCommand => ({
+  type: "ScalarCmd",
+  DeviceIndex: SAM_NEO_2_PRO.index,
+  Scalars: [{ Index: 0, Scalar, ActuatorType: "Vibrate" }],
+});
+const neo2Vacuum = (Scalar: number): ReceivedCommand => ({
+  type: "ScalarCmd",
+  DeviceIndex: SAM_NEO_2_PRO.index,
+  Scalars: [{ Index: 1, Scalar, ActuatorType: "Constrict" }],
+});
+const stopDevice = (DeviceIndex: number): ReceivedCommand => ({
+  type: "StopDeviceCmd",
+  DeviceIndex,
+});
+
+// Levels of the stepping loop in Combo
+const ramp = (steps: number, power: number) =>
+  Array.from({ length: steps }, (_, i) => (1 / steps) * i * power);
+
+// Levels of Piston's up-down thrust cycles
+const thrusts = (cycles: number, steps: number, power: number) =>
+  Array.from({ length: cycles * steps }, (_, i) => {
+    const position = (i % steps) / steps;
+    return (position < 0.5 ? position * 2 : 2 - position * 2) * power;
+  });
+
+describe("startup", () => {
+  const standIn = new StandInButtplugServer([
+    ORIGINAL_SAM_NEO,
+    SAM_NEO_2_PRO,
+    LOVENSE,
+  ]);
+  let server: TestServer;
+
+  before(async () => {
+    server = await TestServer.start(await standIn.start());
+  });
+
+  after(async () => {
+    await server.close();
+    await standIn.close();
+  });
+
+  it("connects every Sam Neo with its detected version and skips other devices", async () => {
+    const listing = await server.waitForDevices(2);
+    assert.match(listing, /^0: Svakom Sam Neo, version: original, .*default$/m);
+    assert.match(listing, /^1: Svakom Sam Neo 2 Pro, version: neo2_series, /m);
+    assert.doesNotMatch(listing, /Lovense/);
+  });
+});
+
+describe("original Sam Neo", () => {
+  const standIn = new StandInButtplugServer([ORIGINAL_SAM_NEO]);
+  let server: TestServer;
+
+  before(async () => {
+    server = await TestServer.start(await standIn.start());
+    await server.waitForDevices(1);
+    standIn.take();
+  });
+
+  after(async () => {
+    await server.close();
+    await standIn.close();
+  });
+
+  it("Vacuum drives the second vibrator", async () => {
+    await server.play("Svakom-Sam-Neo-Vacuum", {
+      intensity: 0.5,
+      duration: 200,
+    });
+    assert.deepEqual(standIn.take(), [vibrate([0, 0.5]), vibrate([0, 0])]);
+  });
+
+  it("Piston holds vibration and thrusts with the second vibrator", async () => {
+    const { status } = await server.play("Svakom-Sam-Neo-Piston", {
+      duration: 2000,
+      cycles: 2,
+      steps: 20,
+      vibrationPower: 0.5,
+    });
+    assert.deepEqual(standIn.take(), [
+      ...thrusts(2, 20, 1).map((level) => vibrate([0.5, level])),
+      stopDevice(ORIGINAL_SAM_NEO.index),
+    ]);
+    assert.match(status, /result: Piston motion completed .*cycles: 2,/);
+    assert.match(
+      status,
+      /timing: planned 2000ms, actual \d+ms, 40\/40 steps sent, 0 skipped/,
+    );
+  });
+
+  it("Combo steps both vibrators together", async () => {
+    await server.play("Svakom-Sam-Neo-Combo", {
+      duration: 1000,
+      steps: 20,
+      vibrationPower: 0.5,
+      vacuumIntensity: 0.4,
+    });
+    const vibration = ramp(20, 0.5);
+    const vacuum = ramp(20, 0.4);
+    assert.deepEqual(standIn.take(), [
+      ...vibration.map((level, i) => vibrate([level, vacuum[i]])),
+      vibrate([0, 0]),
+    ]);
+  });
+
+  it("Timeline writes both vibrators on every sample", async () => {
+    await server.play("Svakom-Sam-Neo-Timeline", {
+      timeline: {
+        vibration: [
+          { at: 0, level: 0 },
+          { at: 200, level: 1 },
+        ],
+      },
+    });
+    assert.deepEqual(standIn.take(), [
+      vibrate([0, 0]),
+      vibrate([0.5, 0]),
+      vibrate([1, 0]),
+      vibrate([0, 0]),
+    ]);
+  });
+
+  it("ExtendedO drops to the minimum and restores", async () => {
+    await server.play("Svakom-Sam-Neo-ExtendedO", {
+      currentVibration: 0.6,
+      currentVacuum: 0.4,
+      holdDuration: 1000,
+      minimumLevel: 0.1,
+      restoreDuration: 0,
+    });
+    assert.deepEqual(standIn.take(), [
+      vibrate([0.1, 0.1]),
+      vibrate([0.6, 0.4]),
+    ]);
+  });
+
+  it("Stop interrupts the pattern and stops the device", async () => {
+    await server.call("Svakom-Sam-Neo-Combo", { duration: 10000 });
+    const result = await server.call("Svakom-Sam-Neo-Stop");
+    assert.match(result, /^Emergency stop - stopped Svakom-Sam-Neo-Combo/);
+
+    const commands = standIn.take();
+    assert.deepEqual(commands.slice(-3), [
+      vibrate([0, 0]),
+      vibrate([0, 0]),
+      stopDevice(ORIGINAL_SAM_NEO.index),
+    ]);
+  });
+});
+
+describe("Sam Neo 2 Pro", () => {
+  const standIn = new StandInButtplugServer([SAM_NEO_2_PRO]);
+  let server: TestServer;
+
+  before(async () => {
+    server = await TestServer.start(await standIn.start());
+    await server.waitForDevices(1);
+    standIn.take();
+  });
+
+  after(async () => {
+    await server.close();
+    await standIn.close();
+  });
+
+  it("Vacuum drives the Constrict actuator", async () => {
+    const { status } = await server.play("Svakom-Sam-Neo-Vacuum", {
+      intensity: 0.5,
+      duration: 200,
+    });
+    assert.match(status, /method: Constrict@1/);
+    assert.deepEqual(standIn.take(), [neo2Vacuum(0.5), neo2Vacuum(0)]);
+  });
+
+  it("Vacuum reports duration, commands and command path when it ends", async () => {
+    const { status } = await server.play("Svakom-Sam-Neo-Vacuum", {
+      intensity: 0.5,
+      duration: 200,
+    });
+    const sessionId = status.split(" ")[0];
+    const result = await server.result("Svakom-Sam-Neo-Session-Status", {
+      sessionId,
+    });
+    const { session } = result.structuredContent as {
+      session: SessionSummary;
+    };
+    assert.equal(session.status, "completed");
+    assert.equal(session.plannedDuration, 200);
+    assert.ok(session.actualDuration >= 200, `${session.actualDuration}`);
+    assert.equal(session.commandsSent, 2);
+    assert.equal(session.commandPath, "Constrict@1");
+    assert.deepEqual(session.levels, { vibration: 0, vacuum: 0 });
+    assert.deepEqual(standIn.take(), [neo2Vacuum(0.5), neo2Vacuum(0)]);
+  });
+
+  it("fails with isError and the category of the error", async () => {
+    const unknownDevice = await server.result("Svakom-Sam-Neo-Combo", {
+      duration: 1000,
+      device: 7,
+    });
+    assert.equal(unknownDevice.isError, true);
+    assert.equal(
+      (unknownDevice.structuredContent as { error: { category: string } }).error
+        .category,
+      "device-not-found",
+    );
+
+    const unknownSession = await server.result(
+      "Svakom-Sam-Neo-Session-Status",
+      { sessionId: "missing" },
+    );
+    assert.equal(unknownSession.isError, true);
+    assert.deepEqual(unknownSession.structuredContent, {
+      error: {
+        category: "not-found",
+        message: "Session not found: missing",
+      },
+    });
+  });
+
+  it("Piston thrusts with vibration", async () => {
+    await server.play("Svakom-Sam-Neo-Piston", {
+      duration: 2000,
+      cycles: 2,
+      steps: 20,
+      vibrationPower: 0.5,
+    });
+    assert.deepEqual(standIn.take(), [
+      ...thrusts(2, 20, 0.5).map(neo2Vibration),
+      stopDevice(SAM_NEO_2_PRO.index),
+    ]);
+  });
+
+  it("Piston refuses cycles that are too fast or too many steps", async () => {
+    for (const [params, message] of [
+      [
+        { duration: 1000, cycles: 5 },
+        "5 cycles in 1000ms is faster than 4 cycles per second",
+      ],
+      [
+        { duration: 100000, frequency: 4, steps: 1000 },
+        "up to 400 cycles of 1000 steps is more than 100000 steps, use fewer steps or cycles",
+      ],
+      [
+        // Varied cycles up to half as long count twice
+        { duration: 50000, cycles: 100, steps: 1000, tempoVariation: 0.5 },
+        "up to 200 cycles of 1000 steps is more than 100000 steps, use fewer steps or cycles",
+      ],
+    ] as const) {
+      const result = await server.result("Svakom-Sam-Neo-Piston", params);
+      assert.equal(result.isError, true);
+      assert.deepEqual(result.structuredContent, {
+        error: { category: "invalid-input", message },
+      });
+    }
+    assert.deepEqual(standIn.take(), []);
+  });
+
+  it("Combo sends vibration and vacuum on every step", async () => {
+    await server.play("Svakom-Sam-Neo-Combo", {
+      duration: 1000,
+      steps: 20,
+      vibrationPower: 0.5,
+      vacuumIntensity: 0.4,
+      syncMode: "alternating",
+    });
+    const vibration = ramp(20, 0.5);
+    const vacuum = ramp(20, 1).map((intensity) => (1 - intensity) * 0.4);
+    assert.deepEqual(standIn.take(), [
+      ...vibration.flatMap((level, i) => [
+        neo2Vibration(level),
+        neo2Vacuum(vacuum[i]),
+      ]),
+      neo2Vibration(0),
+      neo2Vacuum(0),
+    ]);
+  });
+
+  it("ExtendedO drops to the minimum and restores", async () => {
+    await server.play("Svakom-Sam-Neo-ExtendedO", {
+      currentVibration: 0.6,
+      currentVacuum: 0.4,
+      holdDuration: 1000,
+      minimumLevel: 0.1,
+      restoreDuration: 0,
+    });
+    assert.deepEqual(standIn.take(), [
+      neo2Vibration(0.1),
+      neo2Vacuum(0.1),
+      neo2Vibration(0.6),
+      neo2Vacuum(0.4),
+    ]);
+  });
+
+  it("Timeline only sends the channels it animates", async () => {
+    await server.play("Svakom-Sam-Neo-Timeline", {
+      timeline: {
+        vibration: [
+          { at: 0, level: 0 },
+          { at: 200, level: 1 },
+        ],
+      },
+    });
+    assert.deepEqual(standIn.take(), [
+      neo2Vibration(0),
+      neo2Vibration(0.5),
+      neo2Vibration(1),
+      neo2Vibration(0),
+      neo2Vacuum(0),
+    ]);
+  });
+
+  it("Funscript maps stroke position to vacuum", async () => {
+    const path = join(tmpdir(), `samneo-test-${process.pid}.funscript`);
+    await writeFile(
+      path,
+      JSON.stringify({
+        actions: [
+          { at: 0, pos: 0 },
+          { at: 100, pos: 100 },
+          { at: 200, pos: 50 },
+        ],
+      }),
+    );
+
+    await server.play("Svakom-Sam-Neo-Funscript", {
+      path,
+      vibrationMapping: "off",
+      vacuumMapping: "position",
+      resolution: 100,
+    });
+    assert.deepEqual(standIn.take(), [
+      neo2Vacuum(0),
+      neo2Vacuum(1),
+      neo2Vacuum(0.5),
+      neo2Vibration(0),
+      neo2Vacuum(0),
+    ]);
+  });
+
+  it("Funscript skips what a negative offset moves before the start", async () => {
+    const path = join(tmpdir(), `samneo-test-${process.pid}.funscript`);
+    await writeFile(
+      path,
+      JSON.stringify({
+        actions: [
+          { at: 0, pos: 0 },
+          { at: 100, pos: 100 },
+          { at: 300, pos: 50 },
+        ],
+      }),
+    );
+
+    await server.play("Svakom-Sam-Neo-Funscript", {
+      path,
+      vibrationMapping: "off",
+      vacuumMapping: "position",
+      offset: -100,
+      resolution: 100,
+    });
+    assert.deepEqual(standIn.take(), [
+      neo2Vacuum(1),
+      neo2Vacuum(0.75),
+      neo2Vacuum(0.5),
+      neo2Vibration(0),
+      neo2Vacuum(0),
+    ]);
+
+    const result = await server.result("Svakom-Sam-Neo-Funscript", {
+      path,
+      offset: -400,
+    });
+    assert.equal(result.isError, true);
+    assert.deepEqual(result.structuredContent, {
+      error: {
+        category: "invalid-input",
+        message: "offset skips past the end of the script",
+      },
+    });
+  });
+
+  it("Funscript refuses scripts that are too long", async () => {
+    const path = join(tmpdir(), `samneo-test-${process.pid}.funscript`);
+    const hours = (n: number) => n * 60 * 60 * 1000;
+    await writeFile(
+      path,
+      JSON.stringify({
+        actions: [
+          { at: 0, pos: 0 },
+          { at: hours(3), pos: 100 },
+        ],
+      }),
+    );
+
+    const tooLong = await server.result("Svakom-Sam-Neo-Funscript", { path });
+    assert.equal(tooLong.isError, true);
+    assert.deepEqual(tooLong.structuredContent, {
+      error: {
+        category: "invalid-input",
+        message: `script plays for ${hours(3)}ms with this speed and offset, more than ${hours(2)}ms`,
+      },
+    });
+    // Played faster it fits
+    const faster = await server.result("Svakom-Sam-Neo-Funscript", {
+      path,
+      speed: 2,
+    });
+    assert.equal(faster.isError, undefined);
+    await server.call("Svakom-Sam-Neo-Stop");
+    standIn.take();
+
+    await writeFile(
+      path,
+      JSON.stringify({
+        actions: Array.from({ length: 50001 }, (_, i) => ({
+          at: i * 100,
+          pos: i % 2 === 0 ? 0 : 100,
+        })),
+      }),
+    );
+    const tooMany = await server.result("Svakom-Sam-Neo-Funscript", { path });
+    assert.equal(tooMany.isError, true);
+    assert.match(
+      (tooMany.structuredContent as { error: { message: string } }).error
+        .message,
+      /is invalid: actions: Array must contain at most 50000 element/,
+    );
+  });
+
+  it("Audio drives vacuum with the loudness of a WAV file", async () => {
+    const path = join(tmpdir(), `samneo-test-${process.pid}.wav`);
+    // Loud for 400ms, then silent for 400ms
+    await writeFile(path, wav([[...tone(60, 400), ...silence(400)]]));
+    const params = {
+      path,
+      vibrationBand: "off",
+      vacuumBand: "envelope",
+      smoothing: 0,
+      floor: 0.1,
+      ceiling: 0.7,
+      resolution: 100,
+    };
+
+    const preview = await server.call("Svakom-Sam-Neo-Audio", {
+      ...params,
+      preview: true,
+    });
+    assert.match(preview, /^Audio preview - duration: 800ms\n/);
+    assert.match(preview, /8000Hz, 1 channel, s16le/);
+    assert.match(preview, /vibration \(off\): off/);
+    assert.match(preview, /vacuum \(envelope\): mean 0\.40, peak 0\.70 /);
+    assert.deepEqual(standIn.take(), []);
+
+    const { started } = await server.play("Svakom-Sam-Neo-Audio", params);
+    assert.match(started, /^Audio started - session: /);
+    assert.deepEqual(standIn.take(), [
+      neo2Vacuum(0.7),
+      neo2Vacuum(0.1),
+      neo2Vibration(0),
+      neo2Vacuum(0),
+    ]);
+  });
+
+  it("plays a saved pattern like the original tool call", async () => {
+    const saved = await server.call("Svakom-Sam-Neo-Save-Pattern", {
+      name: "short-suction",
+      kind: "vacuum",
+      params: { intensity: 0.3, duration: 200 },
+    });
+    assert.match(saved, /^Pattern saved - short-suction \(vacuum\)/);
+
+    await server.play("Svakom-Sam-Neo-Play-Pattern", {
+      name: "short-suction",
+    });
+    assert.deepEqual(standIn.take(), [neo2Vacuum(0.3), neo2Vacuum(0)]);
+  });
+
+  it("Sequence plays its steps and loops without zeroing in between", async () => {
+    const { status } = await server.play("Svakom-Sam-Neo-Sequence", {
+      steps: [
+        { tool: "vacuum", params: { intensity: 0.5, duration: 200 } },
+        {
+          repeat: 2,
+          steps: [
+            { tool: "vacuum", params: { intensity: 0.3, duration: 100 } },
+            { tool: "vacuum", params: { intensity: 0.7, duration: 100 } },
+          ],
+        },
+      ],
+    });
+    assert.match(
+      status,
+      /result: Sequence completed - steps: 5, duration: 600ms/,
+    );
+    assert.deepEqual(standIn.take(), [
+      neo2Vacuum(0.5),
+      neo2Vacuum(0.3),
+      neo2Vacuum(0.7),
+      neo2Vacuum(0.3),
+      neo2Vacuum(0.7),
+      neo2Vibration(0),
+      neo2Vacuum(0),
+    ]);
+  });
+
+  it("Sequence refuses programs that are too long or too dense", async () => {
+    const category = async (steps: unknown[]) => {
+      const result = await server.result("Svakom-Sam-Neo-Sequence", { steps });
+      assert.equal(result.isError, true);
+      return (result.structuredContent as { error: { category: string } }).error
+        .category;
+    };
+    const piston = { duration: 100000, frequency: 4, steps: 200 };
+    assert.equal(
+      await category([
+        { repeat: 50, steps: [{ tool: "piston", params: piston }] },
+      ]),
+      "invalid-input",
+    );
+    assert.equal(
+      await category([
+        { repeat: 2, steps: [{ tool: "piston", params: piston }] },
+      ]),
+      "invalid-input",
+    );
+    assert.deepEqual(standIn.take(), []);
+  });
+
+  it("ExtendedO interrupts the running pattern and resumes it", async () => {
+    const playing = server.play("Svakom-Sam-Neo-Sequence", {
+      steps: [
+        { tool: "vacuum", params: { intensity: 0.5, duration: 400 } },
+        { tool: "vacuum", params: { intensity: 0.3, duration: 400 } },
+      ],
+    });
+    await sleep(150);
+    const interrupted = await server.call("Svakom-Sam-Neo-ExtendedO", {
+      holdDuration: 1000,
+      minimumLevel: 0.1,
+      restoreDuration: 0,
+    });
+    assert.match(
+      interrupted,
+      /^Extended O interrupting Svakom-Sam-Neo-Sequence session/,
+    );
+
+    // A second one during the hold is refused, the first keeps going
+    const again = await server.result("Svakom-Sam-Neo-ExtendedO", {
+      holdDuration: 1000,
+    });
+    assert.equal(again.isError, true);
+    const { error } = again.structuredContent as {
+      error: { category: string; message: string };
+    };
+    assert.equal(error.category, "invalid-input");
+    assert.match(error.message, /is already interrupted by ExtendedO$/);
+
+    const { status } = await playing;
+    assert.match(status, /completed/);
+    assert.match(status, /paused 1\d{3}ms/);
+    assert.deepEqual(standIn.take(), [
+      neo2Vacuum(0.5),
+      neo2Vibration(0.1),
+      neo2Vacuum(0.1),
+      neo2Vibration(0),
+      neo2Vacuum(0.5),
+      neo2Vacuum(0.3),
+      neo2Vibration(0),
+      neo2Vacuum(0),
+    ]);
+  });
+
+  it("starts called at once leave one session playing", async () => {
+    await server.call("Svakom-Sam-Neo-Vacuum", { duration: 10000 });
+    await Promise.all([
+      server.call("Svakom-Sam-Neo-Vacuum", { intensity: 0.3, duration: 10000 }),
+      server.call("Svakom-Sam-Neo-Vacuum", { intensity: 0.4, duration: 10000 }),
+    ]);
+
+    const result = await server.result("Svakom-Sam-Neo-Sessions");
+    const { sessions } = result.structuredContent as {
+      sessions: SessionSummary[];
+    };
+    assert.equal(sessions.length, 1);
+    await server.call("Svakom-Sam-Neo-Stop");
+    standIn.take();
+  });
+
+  it("Stop interrupts the pattern and stops the device", async () => {
+    await server.call("Svakom-Sam-Neo-Vacuum", { duration: 10000 });
+    const result = await server.call("Svakom-Sam-Neo-Stop");
+    assert.match(result, /^Emergency stop - stopped Svakom-Sam-Neo-Vacuum/);
+
+    assert.deepEqual(standIn.take(), [
+      neo2Vacuum(0.5),
+      neo2Vibration(0),
+      neo2Vacuum(0),
+      neo2Vibration(0),
+      neo2Vacuum(0),
+      stopDevice(SAM_NEO_2_PRO.index),
+    ]);
+  });
+});
+
+describe("session recordings", () => {
+  const standIn = new StandInButtplugServer([ORIGINAL_SAM_NEO, SAM_NEO_2_PRO]);
+  let server: TestServer;
+
+  before(async () => {
+    server = await TestServer.start(await standIn.start(), [
+      "--record-sessions",
+    ]);
+    await server.waitForDevices(2);
+    standIn.take();
+  });
+
+  after(async () => {
+    await server.close();
+    await standIn.close();
+  });
+
+  // The recording is written in the background once the session has ended
+  async function recordingOf(started: string): Promise<string> {
+    const sessionId = started.match(/session: ([0-9a-f-]{36})/)![1];
+    for (let attempt = 0; ; attempt++) {
+      const status = await server.call("Svakom-Sam-Neo-Session-Status", {
+        sessionId,
+      });
+      const name = status.match(/recording: (\S+)/)?.[1];
+      if (name) return name;
+      if (attempt === 50) assert.fail(`No recording: ${status}`);
+      await sleep(100);
+    }
+  }
+
+  it("replays a Sam Neo 2 session on the original Sam Neo", async () => {
+    const { started } = await server.play("Svakom-Sam-Neo-Combo", {
+      duration: 1000,
+      steps: 20,
+      vibrationPower: 0.5,
+      vacuumIntensity: 0.4,
+      device: SAM_NEO_2_PRO.index,
+    });
+    const name = await recordingOf(started);
+    assert.match(
+      await server.call("Svakom-Sam-Neo-Recordings"),
+      new RegExp(
+        `^${name} - Svakom-Sam-Neo-Combo on Svakom Sam Neo 2 Pro \\(neo2_series\\), completed, .*commands: 42,`,
+      ),
+    );
+    standIn.take();
+
+    const replay = await server.play("Svakom-Sam-Neo-Replay", {
+      recording: name,
+      device: ORIGINAL_SAM_NEO.index,
+    });
+    assert.match(
+      replay.started,
+      /recorded on: neo2_series, device: .*original/,
+    );
+    assert.match(replay.status, /completed/);
+    const vibration = ramp(20, 0.5);
+    const vacuum = ramp(20, 0.4);
+    assert.deepEqual(standIn.take(), [
+      ...vibration.map((level, i) => vibrate([level, vacuum[i]])),
+      vibrate([0, 0]),
+      vibrate([0, 0]),
+    ]);
+  });
+
+  it("rejects recording names that aren't recordings", async () => {
+    assert.match(
+      await server.call("Svakom-Sam-Neo-Replay", { recording: "missing" }),
+      /^Error: RecordingNotFoundError: No recording named "missing"/,
+    );
+    const result = await server.result("Svakom-Sam-Neo-Replay", {
+      recording: "missing",
+    });
+    assert.equal(result.isError, true);
+    assert.deepEqual(result.structuredContent, {
+      error: { category: "not-found", message: 'No recording named "missing"' },
+    });
+  });
+
+  it("replays hand-edited commands in time order", async () => {
+    await mkdir(join(server.dataDir, "recordings"), { recursive: true });
+    await writeFile(
+      join(server.dataDir, "recordings", "hand-edited.json"),
+      JSON.stringify({
+        format: "samneo-recording",
+        formatVersion: 1,
+        recordedAt: "2026-05-01T20:15:02.114Z",
+        session: "hand-edited",
+        tool: "Svakom-Sam-Neo-Vacuum",
+        params: {},
+        device: { name: "Svakom Sam Neo 2 Pro", version: "neo2_series" },
+        status: "completed",
+        duration: 300,
+        commands: [
+          { at: 200, channel: "vacuum", level: 0 },
+          { at: 0, channel: "vacuum", level: 0.5 },
+          { at: 100, channel: "vibration", level: 0.3 },
+        ],
+      }),
+    );
+    standIn.take();
+
+    const { status } = await server.play("Svakom-Sam-Neo-Replay", {
+      recording: "hand-edited",
+      device: SAM_NEO_2_PRO.index,
+    });
+    assert.match(status, /completed/);
+    assert.deepEqual(standIn.take(), [
+      neo2Vacuum(0.5),
+      neo2Vibration(0.3),
+      neo2Vacuum(0),
+      neo2Vibration(0),
+      neo2Vacuum(0),
+    ]);
+  });
+
+  it("reports a corrupt recording as invalid input", async () => {
+    await mkdir(join(server.dataDir, "recordings"), { recursive: true });
+    await writeFile(
+      join(server.dataDir, "recordings", "corrupt.json"),
+      "{ not json",
+    );
+    const result = await server.result("Svakom-Sam-Neo-Replay", {
+      recording: "corrupt",
+    });
+    assert.equal(result.isError, true);
+    assert.deepEqual(result.structuredContent, {
+      error: {
+        category: "invalid-input",
+        message: 'Recording "corrupt" is not valid JSON',
+      },
+    });
+  });
+});
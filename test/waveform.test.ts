@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  type Waveform,
+  waveformLevels,
+  waveformSchedule,
+  waveformSchema,
+} from "../src/waveform.js";
+
+const wave = (spec: Partial<Waveform> & Pick<Waveform, "shape">) =>
+  waveformSchema.parse({ frequency: 1, ...spec });
+
+const approx = (actual: number, expected: number) =>
+  assert.ok(
+    Math.abs(actual - expected) < 1e-9,
+    `expected ${expected}, got ${actual}`,
+  );
+
+describe("waveformLevels", () => {
+  it("scales every shape to min..max", () => {
+    const sine = waveformLevels(wave({ shape: "sine", min: 0.2, max: 0.6 }));
+    approx(sine(0), 0.2);
+    approx(sine(500), 0.6);
+    approx(sine(250), 0.4);
+
+    const triangle = waveformLevels(wave({ shape: "triangle" }));
+    approx(triangle(250), 0.5);
+    approx(triangle(500), 1);
+    approx(triangle(750), 0.5);
+
+    const sawtooth = waveformLevels(wave({ shape: "sawtooth" }));
+    approx(sawtooth(500), 0.5);
+    approx(sawtooth(1000), 0);
+  });
+
+  it("holds a square wave at max for its duty cycle", () => {
+    const square = waveformLevels(wave({ shape: "square", dutyCycle: 0.25 }));
+    assert.equal(square(0), 1);
+    assert.equal(square(240), 1);
+    assert.equal(square(260), 0);
+    assert.equal(square(1100), 1);
+  });
+
+  it("shifts the start by phase and phase offset", () => {
+    const quarter = waveformLevels(wave({ shape: "sawtooth", phase: 0.25 }));
+    approx(quarter(0), 0.25);
+
+    const opposite = waveformLevels(wave({ shape: "triangle" }), 0.5);
+    approx(opposite(0), 1);
+  });
+
+  it("replays random shapes from a seed and stays in range", () => {
+    for (const shape of ["random-walk", "noise"] as const) {
+      const spec = wave({ shape, seed: 42, min: 0.3, max: 0.7 });
+      const a = waveformLevels(spec);
+      const b = waveformLevels(spec);
+      for (let ms = 0; ms < 10000; ms += 37) {
+        assert.equal(a(ms), b(ms));
+        assert.ok(a(ms) >= 0.3 && a(ms) <= 0.7, `${shape} at ${ms}ms`);
+      }
+    }
+  });
+});
+
+describe("waveformSchedule", () => {
+  it("only schedules level changes on its channel", () => {
+    const schedule = waveformSchedule(
+      "vacuum",
+      wave({ shape: "square", frequency: 2 }),
+      1000,
+    );
+    assert.deepEqual(schedule, {
+      steps: [
+        { at: 0, levels: { vacuum: 1 } },
+        { at: 250, levels: { vacuum: 0 } },
+        { at: 500, levels: { vacuum: 1 } },
+        { at: 750, levels: { vacuum: 0 } },
+      ],
+      duration: 1000,
+    });
+  });
+});